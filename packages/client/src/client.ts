@@ -1,6 +1,6 @@
 import { EventEmitter } from "events";
 import pino, { Logger } from "pino";
-import KeyValueStorage, { IKeyValueStorage } from "keyvaluestorage";
+import KeyValueStorage from "keyvaluestorage";
 import {
   IClient,
   ClientOptions,
@@ -8,6 +8,8 @@ import {
   PairingTypes,
   SessionTypes,
   AppMetadata,
+  MethodTypes,
+  JsonRpcHistoryRetention,
 } from "@walletconnect/types";
 import {
   isPairingFailed,
@@ -16,17 +18,27 @@ import {
   isPairingResponded,
   isSessionResponded,
   getAppMetadata,
+  isValidationInvalid,
+  validateUri,
   ERROR,
 } from "@walletconnect/utils";
-import { ErrorResponse, JsonRpcRequest } from "@json-rpc-tools/utils";
+import {
+  formatJsonRpcError,
+  isJsonRpcError,
+  ErrorResponse,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "@json-rpc-tools/utils";
 import { generateChildLogger, getDefaultLoggerOptions } from "@pedrouid/pino-utils";
 
-import { Pairing, Session, Relayer } from "./controllers";
+import { Pairing, PairingManager, Session, Relayer, Storage } from "./controllers";
 import {
   CLIENT_CONTEXT,
   CLIENT_BEAT_INTERVAL,
   CLIENT_EVENTS,
+  CLIENT_EXPIRY_WARNINGS,
   CLIENT_STORAGE_OPTIONS,
+  HISTORY_DEFAULT_RETENTION,
   PAIRING_DEFAULT_TTL,
   PAIRING_EVENTS,
   PAIRING_SIGNAL_METHOD_URI,
@@ -40,7 +52,7 @@ import {
 } from "./constants";
 import { Crypto, KeyChain } from "./controllers/crypto";
 
-export class Client extends IClient {
+export class Client<M extends MethodTypes.Map = MethodTypes.Map> extends IClient {
   public readonly protocol = "wc";
   public readonly version = 2;
 
@@ -50,9 +62,10 @@ export class Client extends IClient {
   public crypto: Crypto;
 
   public relayer: Relayer;
-  public storage: IKeyValueStorage;
+  public storage: Storage;
 
   public pairing: Pairing;
+  public pairings: PairingManager;
   public session: Session;
 
   public context: string = CLIENT_CONTEXT;
@@ -60,13 +73,23 @@ export class Client extends IClient {
   public readonly controller: boolean;
   public metadata: AppMetadata | undefined;
 
-  static async init(opts?: ClientOptions): Promise<Client> {
-    const client = new Client(opts);
+  public expiryWarnings: number[];
+
+  public historyRetention: JsonRpcHistoryRetention;
+
+  public methods: MethodTypes.Validators<M> = {};
+
+  private beatInterval: NodeJS.Timeout | undefined;
+
+  static async init<M extends MethodTypes.Map = MethodTypes.Map>(
+    opts?: ClientOptions<M>,
+  ): Promise<Client<M>> {
+    const client = new Client<M>(opts);
     await client.initialize();
     return client;
   }
 
-  constructor(opts?: ClientOptions) {
+  constructor(opts?: ClientOptions<M>) {
     super(opts);
     const logger =
       typeof opts?.logger !== "undefined" && typeof opts?.logger !== "string"
@@ -76,18 +99,26 @@ export class Client extends IClient {
     this.context = opts?.name || this.context;
     this.controller = opts?.controller || false;
     this.metadata = opts?.metadata || getAppMetadata();
+    this.expiryWarnings = opts?.expiryWarnings || CLIENT_EXPIRY_WARNINGS;
+    this.historyRetention = { ...HISTORY_DEFAULT_RETENTION, ...opts?.historyRetention };
+    this.methods = { ...opts?.methods };
 
     const storage =
       opts?.storage || new KeyValueStorage({ ...CLIENT_STORAGE_OPTIONS, ...opts?.storageOptions });
 
     this.logger = generateChildLogger(logger, this.context);
-    this.crypto = new Crypto(this, opts?.keychain || new KeyChain(this, storage));
+    this.storage = new Storage(this, this.logger, storage, opts?.storageMigrations);
+    this.crypto = new Crypto(
+      this,
+      opts?.keychain || new KeyChain(this, this.storage, opts?.keychainOptions),
+      opts?.keyProvider,
+    );
 
-    this.relayer = new Relayer(this, this.logger, opts?.relayProvider);
-    this.storage = storage;
+    this.relayer = new Relayer(this, this.logger, opts?.relayProvider, opts?.relayReconnect);
 
-    this.pairing = new Pairing(this, this.logger);
-    this.session = new Session(this, this.logger);
+    this.pairing = new Pairing(this, this.logger, opts?.pairingUri);
+    this.pairings = new PairingManager(this, this.logger, opts?.pairingPrune);
+    this.session = new Session(this, this.logger, opts?.sessionHeartbeat);
   }
 
   public on(event: string, listener: any): void {
@@ -113,17 +144,17 @@ export class Client extends IClient {
       if (typeof params.pairing === undefined) {
         this.logger.info("Connecing with existing pairing");
       }
-      const pairing =
-        typeof params.pairing === "undefined"
-          ? await this.pairing.create()
-          : await this.pairing.get(params.pairing.topic);
-      this.logger.trace({ type: "method", method: "connect", pairing });
       const metadata = params.metadata || this.metadata;
       if (typeof metadata === "undefined") {
         const error = ERROR.MISSING_OR_INVALID.format({ name: "app metadata" });
         this.logger.error(error.message);
         throw new Error(error.message);
       }
+      const pairing =
+        typeof params.pairing === "undefined"
+          ? await this.pairing.create({ relay: { protocol: RELAYER_DEFAULT_PROTOCOL }, metadata })
+          : await this.pairing.get(params.pairing.topic);
+      this.logger.trace({ type: "method", method: "connect", pairing });
       const session = await this.session.create({
         signal: { method: SESSION_SIGNAL_METHOD_PAIRING, params: { topic: pairing.topic } },
         relay: params.relay || { protocol: RELAYER_DEFAULT_PROTOCOL },
@@ -146,7 +177,17 @@ export class Client extends IClient {
   public async pair(params: ClientTypes.PairParams): Promise<string> {
     this.logger.debug(`Pairing`);
     this.logger.trace({ type: "method", method: "pair", params });
+    const uriValidation = validateUri(params.uri, this.protocol, this.version);
+    if (isValidationInvalid(uriValidation)) {
+      this.logger.error(uriValidation.error.message);
+      throw new Error(uriValidation.error.message);
+    }
     const proposal = formatPairingProposal(params.uri);
+    if (proposal.ttl <= 0) {
+      const error = ERROR.EXPIRED.format({ context: "pairing proposal" });
+      this.logger.error(error.message);
+      throw new Error(error.message);
+    }
     const approved = proposal.proposer.controller !== this.controller;
     const reason = approved
       ? undefined
@@ -228,8 +269,41 @@ export class Client extends IClient {
     await this.session.update(params);
   }
 
-  public async request(params: ClientTypes.RequestParams): Promise<any> {
-    return this.session.request(params);
+  public async rotate(params: ClientTypes.RotateParams): Promise<void> {
+    await this.session.rotate(params);
+  }
+
+  public async extend(params: ClientTypes.ExtendParams): Promise<void> {
+    await this.session.extend(params);
+  }
+
+  public register(methods: MethodTypes.Validators<M>): void {
+    this.methods = { ...this.methods, ...methods };
+  }
+
+  public async request<K extends MethodTypes.Name<M>>(
+    params: ClientTypes.RequestParams<M, K>,
+  ): Promise<MethodTypes.Result<M, K>>;
+  public async request(params: ClientTypes.BatchRequestParams<M>): Promise<JsonRpcResponse[]>;
+  public async request(
+    params: ClientTypes.RequestParams<M> | ClientTypes.BatchRequestParams<M>,
+  ): Promise<any> {
+    if ("requests" in params) {
+      const responses = await this.session.requestBatch(params);
+      // invalid results only fail their own item in the batch
+      return responses.map((response, index) => {
+        if (isJsonRpcError(response)) return response;
+        try {
+          this.validateResult(params.requests[index], response.result);
+        } catch (e) {
+          return formatJsonRpcError(response.id, e.message);
+        }
+        return response;
+      });
+    }
+    const result = await this.session.request(params);
+    this.validateResult(params.request, result);
+    return result;
   }
 
   public async respond(params: ClientTypes.RespondParams): Promise<void> {
@@ -240,12 +314,34 @@ export class Client extends IClient {
     await this.session.notify(params);
   }
 
+  public async ping(params: ClientTypes.PingParams): Promise<void> {
+    this.logger.debug(`Pinging Session`);
+    this.logger.trace({ type: "method", method: "ping", params });
+    await this.session.ping(params.topic, params.timeout);
+  }
+
   public async disconnect(params: ClientTypes.DisconnectParams): Promise<void> {
     this.logger.debug(`Disconnecting Application`);
     this.logger.trace({ type: "method", method: "disconnect", params });
     await this.session.delete(params);
   }
 
+  public async destroy(params?: ClientTypes.DestroyParams): Promise<void> {
+    this.logger.debug(`Destroying Client`);
+    this.logger.trace({ type: "method", method: "destroy", params });
+    if (typeof this.beatInterval !== "undefined") {
+      clearInterval(this.beatInterval);
+      this.beatInterval = undefined;
+    }
+    await this.pairings.close();
+    await this.pairing.close(params);
+    await this.session.close(params);
+    await this.relayer.close();
+    await this.crypto.close();
+    await this.storage.close();
+    this.events.removeAllListeners();
+  }
+
   // ---------- Protected ----------------------------------------------- //
 
   protected async onPairingRequest(request: JsonRpcRequest): Promise<void> {
@@ -277,13 +373,23 @@ export class Client extends IClient {
   }
   // ---------- Private ----------------------------------------------- //
 
+  private validateResult(request: MethodTypes.Request<M>, result: any) {
+    const validator = this.methods[request.method];
+    if (typeof validator?.result === "undefined" || validator.result(result)) return;
+    const error = ERROR.MISSING_OR_INVALID.format({ name: `${request.method} result` });
+    this.logger.error(error.message);
+    throw new Error(error.message);
+  }
+
   private async initialize(): Promise<any> {
     this.logger.trace(`Initialized`);
     try {
+      await this.storage.init();
       await this.crypto.init();
       await this.relayer.init();
       await this.pairing.init();
       await this.session.init();
+      await this.pairings.init();
       this.setBeatInterval();
       this.registerEventListeners();
       this.logger.info(`Client Initilization Success`);
@@ -295,7 +401,10 @@ export class Client extends IClient {
   }
 
   private setBeatInterval() {
-    setInterval(() => this.events.emit(CLIENT_EVENTS.beat), CLIENT_BEAT_INTERVAL);
+    this.beatInterval = setInterval(
+      () => this.events.emit(CLIENT_EVENTS.beat),
+      CLIENT_BEAT_INTERVAL,
+    );
   }
 
   private registerEventListeners(): void {
@@ -332,6 +441,21 @@ export class Client extends IClient {
         this.events.emit(eventName, pairing, reason);
       },
     );
+    this.pairing.on(
+      PAIRING_EVENTS.rotated,
+      (pairing: PairingTypes.Settled, previousTopic: string) => {
+        const eventName = CLIENT_EVENTS.pairing.rotated;
+        this.logger.info(`Emitting ${eventName}`);
+        this.logger.debug({ type: "event", event: eventName, data: pairing, previousTopic });
+        this.events.emit(eventName, pairing, previousTopic);
+      },
+    );
+    this.pairing.on(PAIRING_EVENTS.expiring, (pairing: PairingTypes.Settled, threshold: number) => {
+      const eventName = CLIENT_EVENTS.pairing.expiring;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: pairing, threshold });
+      this.events.emit(eventName, pairing, threshold);
+    });
     this.pairing.on(PAIRING_EVENTS.request, (requestEvent: PairingTypes.RequestEvent) => {
       this.onPairingRequest(requestEvent.request);
     });
@@ -366,12 +490,42 @@ export class Client extends IClient {
         this.events.emit(eventName, session, reason);
       },
     );
-    this.session.on(SESSION_EVENTS.request, (requestEvent: SessionTypes.RequestEvent) => {
+    this.session.on(
+      SESSION_EVENTS.rotated,
+      (session: SessionTypes.Settled, previousTopic: string) => {
+        const eventName = CLIENT_EVENTS.session.rotated;
+        this.logger.info(`Emitting ${eventName}`);
+        this.logger.debug({ type: "event", event: eventName, data: session, previousTopic });
+        this.events.emit(eventName, session, previousTopic);
+      },
+    );
+    this.session.on(SESSION_EVENTS.expiring, (session: SessionTypes.Settled, threshold: number) => {
+      const eventName = CLIENT_EVENTS.session.expiring;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: session, threshold });
+      this.events.emit(eventName, session, threshold);
+    });
+    this.session.on(SESSION_EVENTS.request, (requestEvent: ClientTypes.RequestEvent<M>) => {
       const eventName = CLIENT_EVENTS.session.request;
       this.logger.info(`Emitting ${eventName}`);
       this.logger.debug({ type: "event", event: eventName, data: requestEvent });
       this.events.emit(eventName, requestEvent);
     });
+    this.session.on(
+      SESSION_EVENTS.batchRequest,
+      (batchRequestEvent: ClientTypes.BatchRequestEvent<M>) => {
+        const eventName = CLIENT_EVENTS.session.batchRequest;
+        this.logger.info(`Emitting ${eventName}`);
+        this.logger.debug({ type: "event", event: eventName, data: batchRequestEvent });
+        this.events.emit(eventName, batchRequestEvent);
+      },
+    );
+    this.session.on(SESSION_EVENTS.cancelled, (requestEvent: ClientTypes.RequestEvent<M>) => {
+      const eventName = CLIENT_EVENTS.session.cancelled;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: requestEvent });
+      this.events.emit(eventName, requestEvent);
+    });
     this.session.on(SESSION_EVENTS.response, (responseEvent: SessionTypes.ResponseEvent) => {
       const eventName = CLIENT_EVENTS.session.response;
       this.logger.info(`Emitting ${eventName}`);
@@ -387,12 +541,24 @@ export class Client extends IClient {
         this.events.emit(eventName, notificationEvent);
       },
     );
+    this.session.on(SESSION_EVENTS.online, (session: SessionTypes.Settled) => {
+      const eventName = CLIENT_EVENTS.session.online;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: session });
+      this.events.emit(eventName, session);
+    });
+    this.session.on(SESSION_EVENTS.offline, (session: SessionTypes.Settled) => {
+      const eventName = CLIENT_EVENTS.session.offline;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: session });
+      this.events.emit(eventName, session);
+    });
   }
 }
 
 function formatPairingProposal(uri: string): PairingTypes.Proposal {
   const uriParams = parseUri(uri);
-  return {
+  const proposal: PairingTypes.Proposal = {
     topic: uriParams.topic,
     relay: uriParams.relay,
     proposer: { publicKey: uriParams.publicKey, controller: uriParams.controller },
@@ -401,6 +567,15 @@ function formatPairingProposal(uri: string): PairingTypes.Proposal {
       jsonrpc: { methods: [SESSION_JSONRPC.propose] },
       notifications: { types: [] },
     },
-    ttl: PAIRING_DEFAULT_TTL,
+    ttl:
+      typeof uriParams.expiryTimestamp !== "undefined"
+        ? Math.floor((uriParams.expiryTimestamp - Date.now()) / 1000)
+        : PAIRING_DEFAULT_TTL,
+    ciphers: uriParams.ciphers,
   };
+  if (typeof uriParams.metadata !== "undefined") {
+    proposal.proposer.metadata = uriParams.metadata;
+  }
+  if (!proposal.ciphers) delete proposal.ciphers;
+  return proposal;
 }
@@ -1,9 +1,11 @@
-import { FIVE_SECONDS } from "./time";
+import { FIVE_SECONDS, ONE_DAY, ONE_HOUR } from "./time";
 
 export const CLIENT_CONTEXT = "client";
 
 export const CLIENT_BEAT_INTERVAL = FIVE_SECONDS * 1000;
 
+export const CLIENT_EXPIRY_WARNINGS = [ONE_DAY, ONE_HOUR];
+
 export const CLIENT_EVENTS = {
   beat: "client_beat",
   pairing: {
@@ -11,15 +13,23 @@ export const CLIENT_EVENTS = {
     updated: "pairing_updated",
     created: "pairing_created",
     deleted: "pairing_deleted",
+    rotated: "pairing_rotated",
+    expiring: "pairing_expiring",
   },
   session: {
     proposal: "session_proposal",
     updated: "session_updated",
     created: "session_created",
     deleted: "session_deleted",
+    rotated: "session_rotated",
+    expiring: "session_expiring",
     notification: "session_notification",
     request: "session_request",
+    batchRequest: "session_request_batch",
     response: "session_response",
+    cancelled: "session_cancelled",
+    online: "session_peer_online",
+    offline: "session_peer_offline",
   },
 };
 
@@ -1,3 +1,14 @@
 export const CRYPTO_CONTEXT = "crypto";
 
 export const KEYCHAIN_CONTEXT = "keychain";
+
+export const KEY_PROVIDER_JSONRPC = {
+  generateKeyPair: "keyProvider_generateKeyPair",
+  deriveSharedKey: "keyProvider_deriveSharedKey",
+  deleteKeyPair: "keyProvider_deleteKeyPair",
+};
+
+export const KEYCHAIN_KDF_ITERATIONS = 100000;
+
+// wrapping keys are expected to be high-entropy so a single salted round suffices
+export const KEYCHAIN_WRAPPING_KEY_ITERATIONS = 1;
@@ -1,10 +1,38 @@
+import {
+  JsonRpcHistoryRetention,
+  JsonRpcRecordDirection,
+  JsonRpcRecordStatus,
+} from "@walletconnect/types";
+import { THIRTY_DAYS } from "./time";
+
 export const HISTORY_EVENTS = {
   created: "history_created",
   updated: "history_updated",
   deleted: "history_deleted",
+  pruned: "history_pruned",
+  expired: "history_expired",
+  status: "history_status",
   enabled: "history_enabled",
   disabled: "history_disabled",
   sync: "history_sync",
 };
 
 export const HISTORY_CONTEXT = "history";
+
+export const HISTORY_STATUS = {
+  pending: "pending" as JsonRpcRecordStatus,
+  resolved: "resolved" as JsonRpcRecordStatus,
+  rejected: "rejected" as JsonRpcRecordStatus,
+  cancelled: "cancelled" as JsonRpcRecordStatus,
+  expired: "expired" as JsonRpcRecordStatus,
+};
+
+export const HISTORY_DIRECTION = {
+  sent: "sent" as JsonRpcRecordDirection,
+  received: "received" as JsonRpcRecordDirection,
+};
+
+export const HISTORY_DEFAULT_RETENTION: JsonRpcHistoryRetention = {
+  maxRecordsPerTopic: 100,
+  maxAge: THIRTY_DAYS,
+};
@@ -4,5 +4,6 @@ export * from "./history";
 export * from "./pairing";
 export * from "./relayer";
 export * from "./session";
+export * from "./storage";
 export * from "./subscription";
 export * from "./time";
@@ -1,5 +1,5 @@
 import { PairingTypes, SignalTypes } from "@walletconnect/types";
-import { THIRTY_DAYS } from "./time";
+import { ONE_DAY, THIRTY_DAYS } from "./time";
 
 export const PAIRING_JSONRPC: PairingTypes.JsonRpc = {
   propose: "wc_pairingPropose",
@@ -9,12 +9,28 @@ export const PAIRING_JSONRPC: PairingTypes.JsonRpc = {
   upgrade: "wc_pairingUpgrade",
   delete: "wc_pairingDelete",
   payload: "wc_pairingPayload",
+  batchPayload: "wc_pairingBatchPayload",
   ping: "wc_pairingPing",
   notification: "wc_pairingNotification",
+  rotate: "wc_pairingRotate",
+  extend: "wc_pairingExtend",
+  cancel: "wc_pairingCancel",
 };
 
 export const PAIRING_CONTEXT = "pairing";
 
+export const PAIRING_MANAGER_CONTEXT = "pairings";
+
+export const PAIRING_DEFAULT_URI_OPTIONS: PairingTypes.UriOptions = {
+  expiry: false,
+  metadata: false,
+};
+
+export const PAIRING_DEFAULT_PRUNE_OPTIONS: PairingTypes.PruneOptions = {
+  interval: ONE_DAY,
+  maxFailedPings: 3,
+};
+
 export const PAIRING_DEFAULT_TTL = THIRTY_DAYS;
 
 export const PAIRING_SIGNAL_METHOD_URI = "uri" as SignalTypes.MethodUri;
@@ -33,9 +49,13 @@ export const PAIRING_EVENTS: PairingTypes.Events = {
   updated: "pairing_updated",
   deleted: "pairing_deleted",
   request: "pairing_request",
+  batchRequest: "pairing_request_batch",
   response: "pairing_response",
   enabled: "pairing_enabled",
   disabled: "pairing_disabled",
   sync: "pairing_sync",
   notification: "pairing_notification",
+  rotated: "pairing_rotated",
+  expiring: "pairing_expiring",
+  cancelled: "pairing_cancelled",
 };
@@ -1,4 +1,6 @@
-import { SIX_HOURS } from "./time";
+import { RelayerTypes } from "@walletconnect/types";
+
+import { ONE_SECOND, SIX_HOURS, THIRTY_SECONDS } from "./time";
 
 export const RELAYER_DEFAULT_PUBLISH_TTL = SIX_HOURS;
 
@@ -8,8 +10,36 @@ export const RELAYER_DEFAULT_RPC_URL = "wss://relay.walletconnect.org";
 
 export const RELAYER_CONTEXT = "relayer";
 
+export const RELAYER_BATCH_JSONRPC: { [protocol: string]: RelayerTypes.BatchMethods } = {
+  waku: {
+    batchSubscribe: "waku_batchSubscribe",
+    batchUnsubscribe: "waku_batchUnsubscribe",
+  },
+};
+
 export const RELAYER_EVENTS = {
   connect: "relayer_connect",
   disconnect: "relayer_disconnect",
   error: "relayer_error",
+  queued: "relayer_queued",
+  published: "relayer_published",
+  failed: "relayer_failed",
+  reconnecting: "relayer_reconnecting",
+  reconnect_failed: "relayer_reconnect_failed",
+  failover: "relayer_failover",
+};
+
+export const RELAYER_DEFAULT_RECONNECT_OPTIONS: Required<RelayerTypes.ReconnectOptions> = {
+  baseDelay: ONE_SECOND * 1000,
+  maxDelay: THIRTY_SECONDS * 1000,
+  jitter: 0.5,
+  maxAttempts: Infinity,
 };
+
+export const RELAYER_FAILOVER_ATTEMPTS = 3;
+
+export const RELAYER_FAILOVER_ERRORS = 3;
+
+export const RELAYER_SEEN_CACHE_SIZE = 1000;
+
+export const RELAYER_PUBLISH_MAX_ATTEMPTS = 3;
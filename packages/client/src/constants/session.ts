@@ -1,6 +1,6 @@
 import { SessionTypes, SignalTypes } from "@walletconnect/types";
 
-import { SEVEN_DAYS } from "./time";
+import { SEVEN_DAYS, TEN_SECONDS, THIRTY_SECONDS } from "./time";
 
 export const SESSION_JSONRPC: SessionTypes.JsonRpc = {
   propose: "wc_sessionPropose",
@@ -10,14 +10,23 @@ export const SESSION_JSONRPC: SessionTypes.JsonRpc = {
   upgrade: "wc_sessionUpgrade",
   delete: "wc_sessionDelete",
   payload: "wc_sessionPayload",
+  batchPayload: "wc_sessionBatchPayload",
   ping: "wc_sessionPing",
   notification: "wc_sessionNotification",
+  rotate: "wc_sessionRotate",
+  extend: "wc_sessionExtend",
+  cancel: "wc_sessionCancel",
 };
 
 export const SESSION_CONTEXT = "session";
 
 export const SESSION_DEFAULT_TTL = SEVEN_DAYS;
 
+export const SESSION_DEFAULT_HEARTBEAT: SessionTypes.HeartbeatOptions = {
+  interval: THIRTY_SECONDS,
+  timeout: TEN_SECONDS,
+};
+
 export const SESSION_SIGNAL_METHOD_PAIRING = "pairing" as SignalTypes.MethodPairing;
 
 export const SESSION_STATUS = {
@@ -34,11 +43,17 @@ export const SESSION_EVENTS: SessionTypes.Events = {
   updated: "session_updated",
   deleted: "session_deleted",
   request: "session_request",
+  batchRequest: "session_request_batch",
   response: "session_response",
   enabled: "session_enabled",
   disabled: "session_disabled",
   sync: "session_sync",
   notification: "session_notification",
+  rotated: "session_rotated",
+  expiring: "session_expiring",
+  cancelled: "session_cancelled",
+  online: "session_peer_online",
+  offline: "session_peer_offline",
 };
 
 export const SESSION_EMPTY_PERMISSIONS = {
@@ -0,0 +1,8 @@
+export const STORAGE_CONTEXT = "storage";
+
+export const STORAGE_VERSION = 1;
+
+export const STORAGE_EVENTS = {
+  changed: "storage_changed",
+  quarantined: "storage_quarantined",
+};
@@ -5,6 +5,9 @@ export const SUBSCRIPTION_EVENTS = {
   created: "subscription_created",
   updated: "subscription_updated",
   deleted: "subscription_deleted",
+  moved: "subscription_moved",
+  retired: "subscription_retired",
+  expiring: "subscription_expiring",
   enabled: "subscription_enabled",
   disabled: "subscription_disabled",
   sync: "subscription_sync",
@@ -7,6 +7,7 @@ export const SEVEN_DAYS = 604800;
 export const ONE_DAY = 86400;
 
 export const SIX_HOURS = 21600;
+export const ONE_HOUR = 3600;
 
 export const FIVE_MINUTES = 300;
 
@@ -15,3 +16,5 @@ export const THIRTY_SECONDS = 30;
 export const TEN_SECONDS = 10;
 
 export const FIVE_SECONDS = 5;
+
+export const ONE_SECOND = 1;
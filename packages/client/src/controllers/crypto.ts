@@ -1,31 +1,76 @@
 import { IKeyValueStorage } from "keyvaluestorage";
-import { IClient, CryptoTypes, ICrypto, IKeyChain } from "@walletconnect/types";
+import {
+  IClient,
+  CryptoTypes,
+  ICrypto,
+  IKeyChain,
+  IKeyProvider,
+  StorageTypes,
+} from "@walletconnect/types";
 import {
   ERROR,
   mapToObj,
   objToMap,
   generateKeyPair,
+  generateRandomBytes32,
   deriveSharedKey,
+  deriveWrappingKey,
+  encryptSymmetric,
+  decryptSymmetric,
+  isEncryptedKeyChain,
+  mergeValues,
   encrypt,
   decrypt,
+  encryptEnvelope,
+  decryptEnvelope,
+  getCipherAlgorithm,
+  getCipherFromAlgorithm,
   sha256,
+  SUPPORTED_CIPHERS,
 } from "@walletconnect/utils";
 
-import { CRYPTO_CONTEXT, KEYCHAIN_CONTEXT } from "../constants";
-import { arrayToHex, concatArrays, hexToArray } from "enc-utils";
+import {
+  CRYPTO_CONTEXT,
+  KEYCHAIN_CONTEXT,
+  KEYCHAIN_KDF_ITERATIONS,
+  KEYCHAIN_WRAPPING_KEY_ITERATIONS,
+  STORAGE_EVENTS,
+} from "../constants";
+import { arrayToHex, concatArrays, hexToArray, utf8ToHex } from "enc-utils";
+import { safeJsonParse, safeJsonStringify } from "safe-json-utils";
+
+interface KeyChainWrapping {
+  key: string;
+  salt: string;
+  iterations: number;
+}
 
 export class KeyChain implements IKeyChain {
   public keychain = new Map<string, string>();
 
   public context = KEYCHAIN_CONTEXT;
 
-  constructor(public client: IClient, public storage: IKeyValueStorage) {
+  private wrapping: KeyChainWrapping | undefined;
+
+  // keychain as last persisted, used to merge writes from other client instances
+  private persisted = new Map<string, string>();
+
+  constructor(
+    public client: IClient,
+    public storage: IKeyValueStorage,
+    public opts?: CryptoTypes.KeyChainOptions,
+  ) {
     this.client = client;
     this.storage = storage;
+    this.opts = opts;
   }
 
   public async init(): Promise<void> {
+    if (this.isEncrypted()) this.validateOptions(this.opts as CryptoTypes.KeyChainOptions);
     await this.restore();
+    this.client.storage.on(STORAGE_EVENTS.changed, (change: StorageTypes.Change) =>
+      this.onStorageChanged(change),
+    );
   }
   public async has(tag: string, opts?: any): Promise<boolean> {
     return this.keychain.has(tag);
@@ -46,6 +91,19 @@ export class KeyChain implements IKeyChain {
     await this.persist();
   }
 
+  public async rotate(opts: CryptoTypes.KeyChainOptions): Promise<void> {
+    this.validateOptions(opts);
+    this.opts = opts;
+    this.wrapping = undefined;
+    await this.persist(false);
+  }
+
+  public async disableEncryption(): Promise<void> {
+    this.opts = { iterations: this.opts?.iterations };
+    this.wrapping = undefined;
+    await this.persist(false);
+  }
+
   // ---------- Private ----------------------------------------------- //
 
   private getStorageKey() {
@@ -53,31 +111,175 @@ export class KeyChain implements IKeyChain {
     return `${storageKeyPrefix}//${this.context}`;
   }
 
-  private async restore() {
-    const persisted = await this.storage.getItem<Record<string, string>>(this.getStorageKey());
-    if (typeof persisted !== "undefined") {
-      this.keychain = objToMap(persisted);
+  private validateOptions(opts: CryptoTypes.KeyChainOptions) {
+    const hasPassphrase = typeof opts.passphrase === "string" && opts.passphrase.length > 0;
+    const hasWrappingKey = typeof opts.wrappingKey === "string" && opts.wrappingKey.length > 0;
+    if (!hasPassphrase && !hasWrappingKey) {
+      const error = ERROR.MISSING_OR_INVALID.format({
+        name: "keychain passphrase or wrapping key",
+      });
+      throw new Error(error.message);
     }
   }
 
-  private async persist() {
-    await this.storage.setItem<Record<string, string>>(
-      this.getStorageKey(),
-      mapToObj(this.keychain),
+  private isEncrypted(): boolean {
+    return (
+      typeof this.opts?.wrappingKey !== "undefined" || typeof this.opts?.passphrase !== "undefined"
+    );
+  }
+
+  private getWrapping(salt: string, iterations: number): KeyChainWrapping {
+    const secret = this.opts?.wrappingKey || utf8ToHex(this.opts?.passphrase || "");
+    const key = deriveWrappingKey(secret, salt, iterations);
+    return { key, salt, iterations };
+  }
+
+  private getDefaultIterations(): number {
+    if (typeof this.opts?.iterations !== "undefined") return this.opts.iterations;
+    return typeof this.opts?.wrappingKey !== "undefined"
+      ? KEYCHAIN_WRAPPING_KEY_ITERATIONS
+      : KEYCHAIN_KDF_ITERATIONS;
+  }
+
+  private decode(
+    persisted: Record<string, string> | CryptoTypes.EncryptedKeyChain,
+  ): Map<string, string> {
+    if (!isEncryptedKeyChain(persisted)) return objToMap(persisted);
+    if (!this.isEncrypted()) {
+      const error = ERROR.UNAUTHORIZED_KEYCHAIN_KEY.format({
+        message: "missing passphrase or wrapping key",
+      });
+      throw new Error(error.message);
+    }
+    const wrapping =
+      this.wrapping?.salt === persisted.salt && this.wrapping.iterations === persisted.iterations
+        ? this.wrapping
+        : this.getWrapping(persisted.salt, persisted.iterations);
+    let decrypted: string;
+    try {
+      decrypted = decryptSymmetric(wrapping.key, persisted.encrypted);
+    } catch (e) {
+      const error = ERROR.UNAUTHORIZED_KEYCHAIN_KEY.format();
+      throw new Error(error.message);
+    }
+    this.wrapping = wrapping;
+    return objToMap(safeJsonParse(decrypted) as Record<string, string>);
+  }
+
+  private merge(remote: Map<string, string>): Map<string, string> {
+    const merged = mergeValues<[string, string]>(
+      Array.from(this.persisted.entries()),
+      Array.from(this.keychain.entries()),
+      Array.from(remote.entries()),
+      ([tag]) => tag,
+    );
+    return new Map(merged);
+  }
+
+  private isValidKeyChain(
+    persisted: any,
+  ): persisted is Record<string, string> | CryptoTypes.EncryptedKeyChain {
+    if (typeof persisted !== "object" || persisted === null || Array.isArray(persisted)) {
+      return false;
+    }
+    return (
+      isEncryptedKeyChain(persisted) ||
+      Object.values(persisted).every(value => typeof value === "string")
     );
   }
+
+  private async restore() {
+    const persisted = await this.storage.getItem(this.getStorageKey());
+    if (typeof persisted === "undefined") return;
+    if (!this.isValidKeyChain(persisted)) {
+      // malformed keychains are set aside so the client can still start with an empty one
+      const error = ERROR.MISSING_OR_INVALID.format({ name: "keychain" });
+      this.client.logger.error(error.message);
+      await this.client.storage.quarantine(this.getStorageKey(), persisted, error.message);
+      await this.storage.removeItem(this.getStorageKey());
+      return;
+    }
+    try {
+      this.keychain = this.decode(persisted);
+    } catch (e) {
+      // keychains that fail to decrypt are left untouched for a retry with the right key
+      this.client.logger.error(e.message);
+      throw e;
+    }
+    this.persisted = new Map(this.keychain);
+    // keychains persisted before encryption was enabled are re-encrypted on restore
+    if (!isEncryptedKeyChain(persisted) && this.isEncrypted()) await this.persist();
+  }
+
+  private async persist(merge = true) {
+    await this.client.storage.enqueue(async () => {
+      if (merge) {
+        const persisted = await this.storage.getItem<
+          Record<string, string> | CryptoTypes.EncryptedKeyChain
+        >(this.getStorageKey());
+        if (typeof persisted !== "undefined") this.keychain = this.merge(this.decode(persisted));
+      }
+      this.persisted = new Map(this.keychain);
+      if (!this.isEncrypted()) {
+        await this.storage.setItem<Record<string, string>>(
+          this.getStorageKey(),
+          mapToObj(this.keychain),
+        );
+        return;
+      }
+      if (typeof this.wrapping === "undefined") {
+        this.wrapping = this.getWrapping(generateRandomBytes32(), this.getDefaultIterations());
+      }
+      const { key, salt, iterations } = this.wrapping;
+      const encrypted = encryptSymmetric(key, safeJsonStringify(mapToObj(this.keychain)));
+      await this.storage.setItem<CryptoTypes.EncryptedKeyChain>(this.getStorageKey(), {
+        salt,
+        iterations,
+        encrypted,
+      });
+    });
+  }
+
+  // applies keys written by another client instance sharing the same storage
+  private onStorageChanged(change: StorageTypes.Change) {
+    if (change.key !== this.getStorageKey()) return;
+    if (typeof change.value === "undefined") return;
+    try {
+      const remote = this.decode(change.value);
+      this.keychain = this.merge(remote);
+      this.persisted = remote;
+    } catch (e) {
+      this.client.logger.error(e);
+    }
+  }
 }
 
 export class Crypto implements ICrypto {
   public context: string = CRYPTO_CONTEXT;
 
-  constructor(public client: IClient, public keychain: IKeyChain) {
+  public ciphers: string[] = SUPPORTED_CIPHERS;
+
+  constructor(
+    public client: IClient,
+    public keychain: IKeyChain,
+    public keyProvider?: IKeyProvider,
+  ) {
     this.client = client;
     this.keychain = keychain;
+    this.keyProvider = keyProvider;
   }
 
   public async init(): Promise<void> {
     await this.keychain.init();
+    if (typeof this.keyProvider !== "undefined") {
+      await this.keyProvider.init();
+    }
+  }
+
+  public async close(): Promise<void> {
+    if (typeof this.keyProvider !== "undefined") {
+      await this.keyProvider.close();
+    }
   }
 
   public async hasKeys(tag: string): Promise<boolean> {
@@ -85,29 +287,46 @@ export class Crypto implements ICrypto {
   }
 
   public async generateKeyPair(): Promise<string> {
+    if (typeof this.keyProvider !== "undefined") {
+      return this.keyProvider.generateKeyPair();
+    }
     const keyPair = generateKeyPair();
     return this.setKeyPair(keyPair);
   }
 
+  public async deleteKeyPair(publicKey: string): Promise<void> {
+    if (typeof this.keyProvider !== "undefined") {
+      return this.keyProvider.deleteKeyPair(publicKey);
+    }
+    await this.keychain.del(publicKey);
+  }
+
   public async generateSharedKey(
     self: CryptoTypes.Participant,
     peer: CryptoTypes.Participant,
     overrideTopic?: string,
+    cipher?: string,
   ): Promise<string> {
-    const keyPair = await this.getKeyPair(self.publicKey);
-    const sharedKey = deriveSharedKey(keyPair.privateKey, peer.publicKey);
-    return this.setEncryptionKeys({ sharedKey, publicKey: keyPair.publicKey }, overrideTopic);
+    const sharedKey = await this.deriveSharedKey(self.publicKey, peer.publicKey);
+    return this.setEncryptionKeys({ sharedKey, publicKey: self.publicKey, cipher }, overrideTopic);
   }
 
   public async encrypt(topic: string, message: string): Promise<string> {
-    const { sharedKey, publicKey } = await this.getEncryptionKeys(topic);
-    const result = await encrypt({ message, sharedKey, publicKey });
+    const { sharedKey, publicKey, cipher } = await this.getEncryptionKeys(topic);
+    // topics without a negotiated cipher keep the legacy (non-enveloped) format
+    const result =
+      typeof cipher !== "undefined"
+        ? await encryptEnvelope({ message, sharedKey, publicKey, cipher })
+        : await encrypt({ message, sharedKey, publicKey });
     return result;
   }
 
   public async decrypt(topic: string, encrypted: string): Promise<string> {
-    const { sharedKey } = await this.getEncryptionKeys(topic);
-    const result = await decrypt({ encrypted, sharedKey });
+    const { sharedKey, cipher } = await this.getEncryptionKeys(topic);
+    const result =
+      typeof cipher !== "undefined"
+        ? await decryptEnvelope({ encrypted, sharedKey })
+        : await decrypt({ encrypted, sharedKey });
     return result;
   }
 
@@ -122,6 +341,14 @@ export class Crypto implements ICrypto {
     return [arrayToHex(arr.slice(0, 32)), arrayToHex(arr.slice(32, 64))];
   }
 
+  private async deriveSharedKey(publicKey: string, peerPublicKey: string): Promise<string> {
+    if (typeof this.keyProvider !== "undefined") {
+      return this.keyProvider.deriveSharedKey(publicKey, peerPublicKey);
+    }
+    const keyPair = await this.getKeyPair(publicKey);
+    return deriveSharedKey(keyPair.privateKey, peerPublicKey);
+  }
+
   private async setKeyPair(keyPair: CryptoTypes.KeyPair): Promise<string> {
     const keys = this.concatKeys(keyPair.publicKey, keyPair.privateKey);
     await this.keychain.set(keyPair.publicKey, keys);
@@ -138,12 +365,20 @@ export class Crypto implements ICrypto {
     overrideTopic?: string,
   ): Promise<string> {
     const topic = overrideTopic || (await sha256(encryptionKeys.sharedKey));
-    const keys = this.concatKeys(encryptionKeys.sharedKey, encryptionKeys.publicKey);
+    let keys = this.concatKeys(encryptionKeys.sharedKey, encryptionKeys.publicKey);
+    if (typeof encryptionKeys.cipher !== "undefined") {
+      const algorithm = arrayToHex(new Uint8Array([getCipherAlgorithm(encryptionKeys.cipher)]));
+      keys = this.concatKeys(keys, algorithm);
+    }
     await this.keychain.set(topic, keys);
     return topic;
   }
   private async getEncryptionKeys(topic: string): Promise<CryptoTypes.EncryptionKeys> {
-    const [sharedKey, publicKey] = this.splitKeys(await this.keychain.get(topic));
-    return { sharedKey, publicKey };
+    const keys = await this.keychain.get(topic);
+    const [sharedKey, publicKey] = this.splitKeys(keys);
+    const algorithm = hexToArray(keys).slice(64);
+    if (!algorithm.length) return { sharedKey, publicKey };
+    const cipher = getCipherFromAlgorithm(algorithm[0]);
+    return { sharedKey, publicKey, cipher };
   }
 }
@@ -4,6 +4,7 @@ import {
   SubscriptionEvent,
   IEngine,
   SessionTypes,
+  JsonRpcRecord,
 } from "@walletconnect/types";
 import {
   generateRandomBytes32,
@@ -11,51 +12,71 @@ import {
   isSequenceFailed,
   isSequenceResponded,
   isSubscriptionUpdatedEvent,
+  negotiateCipher,
   ERROR,
 } from "@walletconnect/utils";
 import {
   JsonRpcPayload,
   JsonRpcRequest,
   JsonRpcResponse,
+  JsonRpcResult,
   formatJsonRpcError,
   formatJsonRpcRequest,
   formatJsonRpcResult,
   isJsonRpcError,
   isJsonRpcRequest,
+  payloadId,
   ErrorResponse,
 } from "@json-rpc-tools/utils";
 
 import {
   SUBSCRIPTION_EVENTS,
+  HISTORY_DIRECTION,
+  HISTORY_EVENTS,
   RELAYER_DEFAULT_PROTOCOL,
   FIVE_MINUTES,
   THIRTY_SECONDS,
 } from "../constants";
 
 export class Engine extends IEngine {
+  // timeouts of sequences being created and requests awaiting responses
+  private timeouts = new Set<NodeJS.Timeout>();
+
   constructor(public sequence: ISequence) {
     super(sequence);
     this.sequence = sequence;
     this.registerEventListeners();
   }
 
+  public async close(): Promise<void> {
+    this.timeouts.forEach(timeout => clearTimeout(timeout));
+    this.timeouts.clear();
+  }
+
   public async ping(topic: string, timeout?: number): Promise<void> {
     const request = { method: this.sequence.config.jsonrpc.ping, params: {} };
     return this.request({ topic, request, timeout: timeout || THIRTY_SECONDS * 1000 });
   }
 
-  public async send(topic: string, payload: JsonRpcPayload, chainId?: string): Promise<void> {
+  public async send(
+    topic: string,
+    payload: JsonRpcPayload,
+    chainId?: string,
+    expiry?: number,
+  ): Promise<void> {
     const settled = await this.sequence.settled.get(topic);
     if (isJsonRpcRequest(payload)) {
       if (!Object.values(this.sequence.config.jsonrpc).includes(payload.method)) {
-        await this.isJsonRpcAuthorized(topic, settled.self, payload);
-        await this.sequence.validateRequest({ topic, request: payload, chainId });
-        await this.sequence.history.set(topic, payload, chainId);
-        const params = {
+        await this.isJsonRpcAuthorized(settled.topic, settled.self, payload);
+        await this.sequence.validateRequest({ topic: settled.topic, request: payload, chainId });
+        await this.sequence.history.set(settled.topic, payload, chainId);
+        const params: SequenceTypes.Request = {
           chainId,
           request: { method: payload.method, params: payload.params },
+          expiry,
         };
         if (!params.chainId) delete params.chainId;
+        if (!params.expiry) delete params.expiry;
         payload = formatJsonRpcRequest<SequenceTypes.Request>(
           this.sequence.config.jsonrpc.payload,
           params,
@@ -63,7 +84,7 @@ export class Engine extends IEngine {
         );
       }
     } else {
-      await this.sequence.history.update(topic, payload);
+      await this.sequence.history.update(settled.topic, payload);
     }
     await this.sequence.client.relayer.publish(settled.topic, payload, {
       relay: settled.relay,
@@ -87,7 +108,7 @@ export class Engine extends IEngine {
       this.sequence.logger.debug(`Create ${this.sequence.context}`);
       this.sequence.logger.trace({ type: "method", method: "create", params });
       const maxTimeout = params?.timeout || FIVE_MINUTES * 1000;
-      const timeout = setTimeout(() => {
+      const timeout = this.setTimeout(() => {
         const error = ERROR.SETTLE_TIMEOUT.format({
           context: this.sequence.context,
           timeout: maxTimeout,
@@ -99,7 +120,7 @@ export class Engine extends IEngine {
       try {
         pending = await this.propose(params);
       } catch (e) {
-        clearTimeout(timeout);
+        this.clearTimeout(timeout);
         return reject(e);
       }
       this.sequence.pending.on(
@@ -108,7 +129,7 @@ export class Engine extends IEngine {
           if (pending.topic !== updatedEvent.data.topic) return;
           if (isSequenceResponded(updatedEvent.data)) {
             const outcome = updatedEvent.data.outcome;
-            clearTimeout(timeout);
+            this.clearTimeout(timeout);
             if (isSequenceFailed(outcome)) {
               try {
                 await this.sequence.pending.delete(pending.topic, outcome.reason);
@@ -164,6 +185,10 @@ export class Engine extends IEngine {
           ...proposal.permissions,
           controller,
         };
+        const cipher =
+          typeof proposal.ciphers !== "undefined"
+            ? negotiateCipher(proposal.ciphers, this.sequence.client.crypto.ciphers)
+            : undefined;
         const settled = await this.settle({
           relay,
           self,
@@ -172,6 +197,7 @@ export class Engine extends IEngine {
           state,
           ttl,
           expiry,
+          cipher,
         });
         const outcome: SequenceTypes.Outcome = {
           topic: settled.topic,
@@ -179,7 +205,9 @@ export class Engine extends IEngine {
           state,
           responder,
           expiry,
+          cipher,
         };
+        if (!outcome.cipher) delete outcome.cipher;
         const pending: SequenceTypes.Pending = {
           status: this.sequence.config.status.responded as SequenceTypes.RespondedStatus,
           topic: proposal.topic,
@@ -243,44 +271,37 @@ export class Engine extends IEngine {
   }
 
   public async request(params: SequenceTypes.RequestParams): Promise<any> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        await this.sequence.validateRequest(params);
-      } catch (e) {
-        return reject(e);
-      }
-      const request = formatJsonRpcRequest(params.request.method, params.request.params);
-      const maxTimeout = params?.timeout || FIVE_MINUTES * 1000;
-      const timeout = setTimeout(() => {
-        const error = ERROR.JSONRPC_REQUEST_TIMEOUT.format({
-          method: request.method,
-          timeout: maxTimeout,
-        });
-        this.sequence.logger.error(error.message);
-        reject(error.message);
-      }, maxTimeout);
-      this.sequence.events.on(
-        this.sequence.config.events.response,
-        (responseEvent: SequenceTypes.ResponseEvent) => {
-          if (params.topic !== responseEvent.topic) return;
-          const response = responseEvent.response;
-          if (response.id !== request.id) return;
-          clearTimeout(timeout);
-          if (isJsonRpcError(response)) {
-            const errorMessage = response.error.message;
-            this.sequence.logger.error(errorMessage);
-            return reject(new Error(errorMessage));
-          }
-          return resolve(response.result);
-        },
-      );
-      try {
-        await this.send(params.topic, request, params?.chainId);
-      } catch (e) {
-        clearTimeout(timeout);
-        return reject(e);
-      }
-    });
+    await this.sequence.validateRequest(params);
+    const request = formatJsonRpcRequest(params.request.method, params.request.params);
+    const [response] = await this.awaitResponses(params, [request], expiry =>
+      this.send(params.topic, request, params?.chainId, expiry),
+    );
+    if (isJsonRpcError(response)) {
+      const errorMessage = response.error.message;
+      this.sequence.logger.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+    return (response as JsonRpcResult).result;
+  }
+
+  public async requestBatch(params: SequenceTypes.BatchRequestParams): Promise<JsonRpcResponse[]> {
+    if (!params.requests?.length) {
+      const error = ERROR.MISSING_OR_INVALID.format({ name: "batch requests" });
+      this.sequence.logger.error(error.message);
+      throw new Error(error.message);
+    }
+    const { topic, chainId } = params;
+    await Promise.all(
+      params.requests.map(request => this.sequence.validateRequest({ topic, request, chainId })),
+    );
+    // consecutive ids so the entries cannot collide within the same millisecond
+    const id = payloadId();
+    const requests = params.requests.map((request, index) =>
+      formatJsonRpcRequest(request.method, request.params, id + index),
+    );
+    return this.awaitResponses(params, requests, expiry =>
+      this.sendBatch(topic, requests, chainId, expiry),
+    );
   }
 
   public async delete(params: SequenceTypes.DeleteParams): Promise<void> {
@@ -289,6 +310,36 @@ export class Engine extends IEngine {
     await this.sequence.settled.delete(params.topic, params.reason);
   }
 
+  public async rotate(params: SequenceTypes.RotateParams): Promise<SequenceTypes.Settled> {
+    this.sequence.logger.debug(`Rotate ${this.sequence.context}`);
+    this.sequence.logger.trace({ type: "method", method: "rotate", params });
+    const settled = await this.sequence.settled.get(params.topic);
+    if (settled.self.publicKey !== settled.permissions.controller.publicKey) {
+      const error = ERROR.UNAUTHORIZED_ROTATE_REQUEST.format({ context: this.sequence.context });
+      this.sequence.logger.error(error.message);
+      throw new Error(error.message);
+    }
+    const rotate: SequenceTypes.Rotate = {
+      publicKey: await this.sequence.client.crypto.generateKeyPair(),
+    };
+    const request = { method: this.sequence.config.jsonrpc.rotate, params: rotate };
+    const result: SequenceTypes.Rotate = await this.request({ topic: settled.topic, request });
+    return this.handleRotate(settled.topic, rotate.publicKey, result.publicKey);
+  }
+
+  public async extend(params: SequenceTypes.ExtendParams): Promise<SequenceTypes.Settled> {
+    this.sequence.logger.debug(`Extend ${this.sequence.context}`);
+    this.sequence.logger.trace({ type: "method", method: "extend", params });
+    const settled = await this.sequence.settled.get(params.topic);
+    const participant: SequenceTypes.Participant = { publicKey: settled.self.publicKey };
+    const extend: SequenceTypes.Extend = { expiry: Date.now() + params.ttl * 1000 };
+    await this.validateExtend(params.topic, extend, participant);
+    const request = { method: this.sequence.config.jsonrpc.extend, params: extend };
+    await this.request({ topic: settled.topic, request });
+    await this.handleExtend(params.topic, extend, participant);
+    return this.sequence.settled.get(params.topic);
+  }
+
   public async notify(params: SequenceTypes.NotifyParams): Promise<void> {
     const settled = await this.sequence.settled.get(params.topic);
     await this.isNotificationAuthorized(params.topic, settled.self, params.type);
@@ -316,10 +367,12 @@ export class Engine extends IEngine {
       metadata: self.metadata,
     };
     if (!proposer.metadata) delete proposer.metadata;
+    const ciphers = this.sequence.client.crypto.ciphers;
+    const ttl = params?.ttl || (await this.sequence.getDefaultTTL());
     const signal =
-      params?.signal || (await this.sequence.getDefaultSignal({ topic, relay, proposer }));
+      params?.signal ||
+      (await this.sequence.getDefaultSignal({ topic, relay, proposer, ttl, ciphers }));
     const permissions = params?.permissions || (await this.sequence.getDefaultPermissions());
-    const ttl = params?.ttl || (await this.sequence.getDefaultTTL());
     const proposal: SequenceTypes.Proposal = {
       relay,
       topic,
@@ -327,6 +380,7 @@ export class Engine extends IEngine {
       signal,
       permissions,
       ttl,
+      ciphers,
     };
     const pending: SequenceTypes.Pending = {
       status: this.sequence.config.status.proposed as SequenceTypes.ProposedStatus,
@@ -342,7 +396,12 @@ export class Engine extends IEngine {
   public async settle(params: SequenceTypes.SettleParams): Promise<SequenceTypes.Settled> {
     this.sequence.logger.debug(`Settle ${this.sequence.context}`);
     this.sequence.logger.trace({ type: "method", method: "settle", params });
-    const topic = await this.sequence.client.crypto.generateSharedKey(params.self, params.peer);
+    const topic = await this.sequence.client.crypto.generateSharedKey(
+      params.self,
+      params.peer,
+      undefined,
+      params.cipher,
+    );
     const settled: SequenceTypes.Settled = {
       topic,
       relay: params.relay,
@@ -351,7 +410,9 @@ export class Engine extends IEngine {
       permissions: params.permissions,
       expiry: params.expiry,
       state: params.state,
+      cipher: params.cipher,
     };
+    if (!settled.cipher) delete settled.cipher;
     await this.sequence.settled.set(settled.topic, settled, {
       relay: settled.relay,
       expiry: settled.expiry,
@@ -382,6 +443,10 @@ export class Engine extends IEngine {
           ...pending.proposal.permissions,
           controller,
         };
+        const cipher =
+          typeof outcome.cipher !== "undefined"
+            ? negotiateCipher([outcome.cipher], pending.proposal.ciphers)
+            : undefined;
         const settled = await this.settle({
           relay: pending.relay,
           self: pending.self,
@@ -390,16 +455,20 @@ export class Engine extends IEngine {
           ttl: pending.proposal.ttl,
           expiry: outcome.expiry,
           state,
+          cipher,
         });
+        const success: SequenceTypes.Success = {
+          topic: settled.topic,
+          relay: settled.relay,
+          responder: outcome.responder,
+          expiry: settled.expiry,
+          state: settled.state,
+          cipher: settled.cipher,
+        };
+        if (!success.cipher) delete success.cipher;
         await this.sequence.pending.update(topic, {
           status: this.sequence.config.status.responded as SequenceTypes.RespondedStatus,
-          outcome: {
-            topic: settled.topic,
-            relay: settled.relay,
-            responder: outcome.responder,
-            expiry: settled.expiry,
-            state: settled.state,
-          },
+          outcome: success,
         });
       } catch (e) {
         this.sequence.logger.error(e);
@@ -451,6 +520,9 @@ export class Engine extends IEngine {
         case this.sequence.config.jsonrpc.payload:
           await this.onPayload(payloadEvent);
           break;
+        case this.sequence.config.jsonrpc.batchPayload:
+          await this.onBatchPayload(payloadEvent);
+          break;
         case this.sequence.config.jsonrpc.update:
           await this.onUpdate(payloadEvent);
           break;
@@ -460,6 +532,15 @@ export class Engine extends IEngine {
         case this.sequence.config.jsonrpc.notification:
           await this.onNotification(payloadEvent);
           break;
+        case this.sequence.config.jsonrpc.rotate:
+          await this.onRotate(payloadEvent);
+          break;
+        case this.sequence.config.jsonrpc.extend:
+          await this.onExtend(payloadEvent);
+          break;
+        case this.sequence.config.jsonrpc.cancel:
+          await this.onCancel(payloadEvent);
+          break;
         case this.sequence.config.jsonrpc.delete:
           await this.sequence.settled.delete(settled.topic, request.params.reason);
           break;
@@ -481,15 +562,21 @@ export class Engine extends IEngine {
     const { topic, payload } = payloadEvent;
     if (isJsonRpcRequest(payload)) {
       const { id, params } = payload as JsonRpcRequest<SequenceTypes.Request>;
-      const { chainId } = params;
+      const { chainId, expiry } = params;
       const request = formatJsonRpcRequest(params.request.method, params.request.params, id);
       const settled = await this.sequence.settled.get(topic);
       await this.isJsonRpcAuthorized(topic, settled.peer, request);
-      await this.sequence.validateRequest({ topic, request, chainId });
+      try {
+        await this.sequence.validateRequest({ topic, request, chainId });
+      } catch (e) {
+        await this.send(topic, formatJsonRpcError(id, e.message));
+        return;
+      }
       const settledPayloadEvent: SequenceTypes.PayloadEvent = {
         topic,
         payload: request,
         chainId,
+        expiry,
       };
       this.sequence.logger.debug(`Receiving ${this.sequence.context} payload`);
       this.sequence.logger.trace({ type: "method", method: "onPayload", ...settledPayloadEvent });
@@ -505,6 +592,44 @@ export class Engine extends IEngine {
     }
   }
 
+  public async onBatchPayload(payloadEvent: SubscriptionEvent.Payload): Promise<void> {
+    const { topic, payload } = payloadEvent;
+    const { requests, chainId, expiry } = (payload as JsonRpcRequest<
+      SequenceTypes.BatchRequest
+    >).params;
+    const settled = await this.sequence.settled.get(topic);
+    await this.isJsonRpcAuthorized(topic, settled.peer, requests);
+    try {
+      await Promise.all(
+        requests.map(request => this.sequence.validateRequest({ topic, request, chainId })),
+      );
+    } catch (e) {
+      await Promise.all(
+        requests.map(request => this.send(topic, formatJsonRpcError(request.id, e.message))),
+      );
+      return;
+    }
+    this.sequence.logger.debug(`Receiving ${this.sequence.context} batch payload`);
+    this.sequence.logger.trace({ type: "method", method: "onBatchPayload", topic, requests });
+    const pending: JsonRpcRequest[] = [];
+    for (const request of requests) {
+      if (await this.sequence.history.exists(topic, request.id)) continue;
+      await this.sequence.history.set(topic, request, chainId, expiry, HISTORY_DIRECTION.received);
+      pending.push(request);
+    }
+    if (!pending.length) return;
+    const batchRequestEvent: SequenceTypes.BatchRequestEvent = {
+      topic,
+      requests: pending,
+      chainId,
+    };
+    if (typeof expiry !== "undefined") batchRequestEvent.expiry = expiry;
+    const eventName = this.sequence.config.events.batchRequest;
+    this.sequence.logger.info(`Emitting ${eventName}`);
+    this.sequence.logger.debug({ type: "event", event: eventName, data: batchRequestEvent });
+    this.sequence.events.emit(eventName, batchRequestEvent);
+  }
+
   public async onUpdate(payloadEvent: SubscriptionEvent.Payload): Promise<void> {
     const { topic, payload } = payloadEvent;
     this.sequence.logger.debug(`Receiving ${this.sequence.context} update`);
@@ -556,6 +681,67 @@ export class Engine extends IEngine {
     this.sequence.events.emit(eventName, notificationEvent);
   }
 
+  public async onRotate(payloadEvent: SubscriptionEvent.Payload): Promise<void> {
+    const { topic, payload } = payloadEvent;
+    this.sequence.logger.debug(`Receiving ${this.sequence.context} rotate`);
+    this.sequence.logger.trace({ type: "method", method: "onRotate", topic, payload });
+    const request = payloadEvent.payload as JsonRpcRequest<SequenceTypes.Rotate>;
+    const settled = await this.sequence.settled.get(payloadEvent.topic);
+    if (settled.peer.publicKey !== settled.permissions.controller.publicKey) {
+      const error = ERROR.UNAUTHORIZED_ROTATE_REQUEST.format({ context: this.sequence.context });
+      this.sequence.logger.error(error.message);
+      await this.send(settled.topic, formatJsonRpcError(request.id, error));
+      return;
+    }
+    const rotate: SequenceTypes.Rotate = {
+      publicKey: await this.sequence.client.crypto.generateKeyPair(),
+    };
+    // respond on the current topic before moving so the peer can still decrypt it
+    await this.send(settled.topic, formatJsonRpcResult(request.id, rotate));
+    await this.handleRotate(settled.topic, rotate.publicKey, request.params.publicKey);
+  }
+
+  public async onExtend(payloadEvent: SubscriptionEvent.Payload): Promise<void> {
+    const { topic, payload } = payloadEvent;
+    this.sequence.logger.debug(`Receiving ${this.sequence.context} extend`);
+    this.sequence.logger.trace({ type: "method", method: "onExtend", topic, payload });
+    const request = payloadEvent.payload as JsonRpcRequest<SequenceTypes.Extend>;
+    const settled = await this.sequence.settled.get(payloadEvent.topic);
+    try {
+      const participant: SequenceTypes.Participant = { publicKey: settled.peer.publicKey };
+      await this.handleExtend(topic, request.params, participant);
+      const response = formatJsonRpcResult(request.id, true);
+      await this.send(settled.topic, response);
+    } catch (e) {
+      this.sequence.logger.error(e);
+      const response = formatJsonRpcError(request.id, e.message);
+      await this.send(settled.topic, response);
+    }
+  }
+
+  public async onCancel(payloadEvent: SubscriptionEvent.Payload): Promise<void> {
+    const { topic, payload } = payloadEvent;
+    this.sequence.logger.debug(`Receiving ${this.sequence.context} cancel`);
+    this.sequence.logger.trace({ type: "method", method: "onCancel", topic, payload });
+    const { id } = (payload as JsonRpcRequest<SequenceTypes.Cancel>).params;
+    if (!this.sequence.history.records.has(id)) return;
+    const record = await this.sequence.history.get(topic, id);
+    // peers can only cancel requests they sent
+    if (record.direction !== HISTORY_DIRECTION.received) return;
+    if (typeof record.response !== "undefined") return;
+    const error = ERROR.JSONRPC_REQUEST_CANCELLED.format({ method: record.request.method });
+    await this.sequence.history.update(topic, formatJsonRpcError(id, error));
+    const requestEvent: SequenceTypes.RequestEvent = {
+      topic,
+      request: formatJsonRpcRequest(record.request.method, record.request.params, id),
+      chainId: record.chainId,
+    };
+    const eventName = this.sequence.config.events.cancelled;
+    this.sequence.logger.info(`Emitting ${eventName}`);
+    this.sequence.logger.debug({ type: "event", event: eventName, data: requestEvent });
+    this.sequence.events.emit(eventName, requestEvent);
+  }
+
   public async handleUpdate(
     topic: string,
     update: SequenceTypes.Update,
@@ -601,18 +787,206 @@ export class Engine extends IEngine {
     await this.sequence.settled.update(settled.topic, settled);
     return upgrade;
   }
+
+  public async handleExtend(
+    topic: string,
+    extend: SequenceTypes.Extend,
+    participant: SequenceTypes.Participant,
+  ): Promise<SequenceTypes.Extend> {
+    await this.validateExtend(topic, extend, participant);
+    await this.sequence.settled.update(topic, { expiry: extend.expiry });
+    return extend;
+  }
   // ---------- Private ----------------------------------------------- //
 
+  private setTimeout(callback: () => void, ms: number): NodeJS.Timeout {
+    const timeout = setTimeout(() => {
+      this.timeouts.delete(timeout);
+      callback();
+    }, ms);
+    this.timeouts.add(timeout);
+    return timeout;
+  }
+
+  private clearTimeout(timeout: NodeJS.Timeout): void {
+    clearTimeout(timeout);
+    this.timeouts.delete(timeout);
+  }
+
+  private async awaitResponses(
+    params: Omit<SequenceTypes.RequestParams, "request">,
+    requests: JsonRpcRequest[],
+    publish: (expiry: number) => Promise<void>,
+  ): Promise<JsonRpcResponse[]> {
+    return new Promise(async (resolve, reject) => {
+      const method = requests.map(request => request.method).join(", ");
+      if (params.signal?.aborted) {
+        const error = ERROR.JSONRPC_REQUEST_CANCELLED.format({ method });
+        this.sequence.logger.error(error.message);
+        return reject(new Error(error.message));
+      }
+      const responses = new Map<number, JsonRpcResponse>();
+      const maxTimeout = params?.timeout || FIVE_MINUTES * 1000;
+      const eventName = this.sequence.config.events.response;
+      // responses to requests sent before a rotation arrive on the rotated topic
+      let topic = params.topic;
+      const cleanup = () => {
+        this.clearTimeout(timeout);
+        this.sequence.events.off(eventName, onResponse);
+        this.sequence.events.off(this.sequence.config.events.rotated, onRotated);
+        params.signal?.removeEventListener("abort", onAbort);
+      };
+      const timeout = this.setTimeout(() => {
+        cleanup();
+        const error = ERROR.JSONRPC_REQUEST_TIMEOUT.format({ method, timeout: maxTimeout });
+        this.sequence.logger.error(error.message);
+        reject(error.message);
+      }, maxTimeout);
+      const onRotated = (settled: SequenceTypes.Settled, previousTopic: string) => {
+        if (previousTopic === topic) topic = settled.topic;
+      };
+      const onResponse = (responseEvent: SequenceTypes.ResponseEvent) => {
+        if (topic !== responseEvent.topic) return;
+        const response = responseEvent.response;
+        if (!requests.some(request => request.id === response.id)) return;
+        responses.set(response.id, response);
+        if (responses.size < requests.length) return;
+        cleanup();
+        return resolve(requests.map(request => responses.get(request.id) as JsonRpcResponse));
+      };
+      const onAbort = async () => {
+        cleanup();
+        const error = ERROR.JSONRPC_REQUEST_CANCELLED.format({ method });
+        this.sequence.logger.error(error.message);
+        reject(new Error(error.message));
+        try {
+          await Promise.all(
+            requests
+              .filter(request => !responses.has(request.id))
+              .map(request => this.cancel(topic, request)),
+          );
+        } catch (e) {
+          this.sequence.logger.error(e);
+        }
+      };
+      this.sequence.events.on(eventName, onResponse);
+      this.sequence.events.on(this.sequence.config.events.rotated, onRotated);
+      params.signal?.addEventListener("abort", onAbort);
+      try {
+        // lets the responder drop the request once the requester stops waiting for it
+        await publish(Date.now() + maxTimeout);
+      } catch (e) {
+        cleanup();
+        return reject(e);
+      }
+    });
+  }
+
+  private async sendBatch(
+    topic: string,
+    requests: JsonRpcRequest[],
+    chainId?: string,
+    expiry?: number,
+  ): Promise<void> {
+    const settled = await this.sequence.settled.get(topic);
+    await this.isJsonRpcAuthorized(topic, settled.self, requests);
+    await Promise.all(
+      requests.map(request => this.sequence.validateRequest({ topic, request, chainId })),
+    );
+    for (const request of requests) {
+      await this.sequence.history.set(topic, request, chainId);
+    }
+    const params: SequenceTypes.BatchRequest = { requests, chainId, expiry };
+    if (!params.chainId) delete params.chainId;
+    if (!params.expiry) delete params.expiry;
+    const payload = formatJsonRpcRequest<SequenceTypes.BatchRequest>(
+      this.sequence.config.jsonrpc.batchPayload,
+      params,
+    );
+    await this.sequence.client.relayer.publish(settled.topic, payload, {
+      relay: settled.relay,
+    });
+  }
+
+  private async cancel(topic: string, request: JsonRpcRequest) {
+    this.sequence.logger.debug(`Cancel ${this.sequence.context} request`);
+    this.sequence.logger.trace({ type: "method", method: "cancel", topic, request });
+    const error = ERROR.JSONRPC_REQUEST_CANCELLED.format({ method: request.method });
+    // record is marked locally only, the peer is notified with a cancel request instead
+    await this.sequence.history.update(topic, formatJsonRpcError(request.id, error));
+    const cancel: SequenceTypes.Cancel = { id: request.id };
+    await this.send(topic, formatJsonRpcRequest(this.sequence.config.jsonrpc.cancel, cancel));
+  }
+
+  private async handleRotate(
+    topic: string,
+    selfPublicKey: string,
+    peerPublicKey: string,
+  ): Promise<SequenceTypes.Settled> {
+    const settled = await this.sequence.settled.get(topic);
+    const self: SequenceTypes.Participant = { ...settled.self, publicKey: selfPublicKey };
+    const peer: SequenceTypes.Participant = { ...settled.peer, publicKey: peerPublicKey };
+    const controller =
+      settled.permissions.controller.publicKey === settled.self.publicKey
+        ? { publicKey: self.publicKey }
+        : { publicKey: peer.publicKey };
+    const rotated: SequenceTypes.Settled = {
+      ...settled,
+      topic: await this.sequence.client.crypto.generateSharedKey(
+        self,
+        peer,
+        undefined,
+        settled.cipher,
+      ),
+      self,
+      peer,
+      permissions: { ...settled.permissions, controller },
+    };
+    // the previous topic key is deleted once the subscription retires the previous topic
+    await this.sequence.settled.move(topic, rotated.topic, rotated);
+    await this.sequence.history.move(topic, rotated.topic);
+    await this.sequence.client.crypto.deleteKeyPair(settled.self.publicKey);
+    return rotated;
+  }
+
+  private async validateExtend(
+    topic: string,
+    extend: SequenceTypes.Extend,
+    participant: SequenceTypes.Participant,
+  ) {
+    const settled = await this.sequence.settled.get(topic);
+    if (participant.publicKey !== settled.permissions.controller.publicKey) {
+      const error = ERROR.UNAUTHORIZED_EXTEND_REQUEST.format({ context: this.sequence.context });
+      this.sequence.logger.error(error.message);
+      throw new Error(error.message);
+    }
+    // expiry cannot be extended further than a new sequence would last
+    const maxExpiry = Date.now() + (await this.sequence.getDefaultTTL()) * 1000;
+    if (
+      typeof extend?.expiry !== "number" ||
+      extend.expiry <= settled.expiry ||
+      extend.expiry > maxExpiry
+    ) {
+      const error = ERROR.INVALID_EXTEND_REQUEST.format({ context: this.sequence.context });
+      this.sequence.logger.error(error.message);
+      throw new Error(error.message);
+    }
+  }
+
   private async isJsonRpcAuthorized(
     topic: string,
     participant: SequenceTypes.Participant,
-    request: JsonRpcRequest,
+    request: JsonRpcRequest | JsonRpcRequest[],
   ) {
     const settled = await this.sequence.settled.get(topic);
     if (participant.publicKey === settled.permissions.controller.publicKey) return;
-    if (!settled.permissions.jsonrpc.methods.includes(request.method)) {
+    const requests = Array.isArray(request) ? request : [request];
+    const unauthorized = requests.find(
+      ({ method }) => !settled.permissions.jsonrpc.methods.includes(method),
+    );
+    if (typeof unauthorized !== "undefined") {
       const error = ERROR.UNAUTHORIZED_JSON_RPC_METHOD.format({
-        method: request.method,
+        method: unauthorized.method,
       });
       this.sequence.logger.error(error.message);
       throw new Error(error.message);
@@ -649,15 +1023,16 @@ export class Engine extends IEngine {
   }
 
   private async onPayloadEvent(payloadEvent: SequenceTypes.PayloadEvent) {
-    const { topic, payload, chainId } = payloadEvent;
+    const { topic, payload, chainId, expiry } = payloadEvent;
     if (isJsonRpcRequest(payload)) {
       if (await this.shouldIgnorePayloadEvent(payloadEvent)) return;
-      await this.sequence.history.set(topic, payload, chainId);
+      await this.sequence.history.set(topic, payload, chainId, expiry, HISTORY_DIRECTION.received);
     } else {
       await this.sequence.history.update(topic, payload);
     }
     if (isJsonRpcRequest(payload)) {
       const requestEvent: SequenceTypes.RequestEvent = { topic, request: payload, chainId };
+      if (typeof expiry !== "undefined") requestEvent.expiry = expiry;
       const eventName = this.sequence.config.events.request;
       this.sequence.logger.info(`Emitting ${eventName}`);
       this.sequence.logger.debug({ type: "event", event: eventName, data: requestEvent });
@@ -692,6 +1067,8 @@ export class Engine extends IEngine {
       | SubscriptionEvent.Updated<SequenceTypes.Pending>,
   ) {
     const pending = event.data;
+    // pending sequences created by another instance sharing the storage were already sent
+    const synced = !isSubscriptionUpdatedEvent(event) && event.synced;
     if (isSignalTypePairing(pending.proposal.signal)) {
       if (!(await this.sequence.client.crypto.hasKeys(pending.proposal.topic))) {
         const pairing = await this.sequence.client.pairing.settled.get(
@@ -701,6 +1078,7 @@ export class Engine extends IEngine {
           pairing.self,
           pairing.peer,
           pending.proposal.topic,
+          pairing.cipher,
         );
       }
     }
@@ -709,7 +1087,7 @@ export class Engine extends IEngine {
       this.sequence.logger.info(`Emitting ${eventName}`);
       this.sequence.logger.debug({ type: "event", event: eventName, data: pending });
       this.sequence.events.emit(eventName, pending);
-      if (!isSubscriptionUpdatedEvent(event)) {
+      if (!isSubscriptionUpdatedEvent(event) && !synced) {
         const method = !isSequenceFailed(pending.outcome)
           ? this.sequence.config.jsonrpc.approve
           : this.sequence.config.jsonrpc.reject;
@@ -723,7 +1101,7 @@ export class Engine extends IEngine {
       this.sequence.logger.info(`Emitting ${eventName}`);
       this.sequence.logger.debug({ type: "event", event: eventName, data: pending });
       this.sequence.events.emit(eventName, pending);
-      if (isSignalTypePairing(pending.proposal.signal)) {
+      if (isSignalTypePairing(pending.proposal.signal) && !synced) {
         // send proposal signal through existing pairing
         const request = formatJsonRpcRequest(
           this.sequence.config.jsonrpc.propose,
@@ -734,6 +1112,23 @@ export class Engine extends IEngine {
     }
   }
 
+  private async onHistoryExpired(record: JsonRpcRecord) {
+    if (typeof record.response === "undefined" || !("error" in record.response)) return;
+    // never answer our own requests on behalf of the peer
+    if (record.direction !== HISTORY_DIRECTION.received) return;
+    this.sequence.logger.debug(`Responding expired ${this.sequence.context} request`);
+    this.sequence.logger.trace({ type: "method", method: "onHistoryExpired", record });
+    try {
+      const settled = await this.sequence.settled.get(record.topic);
+      const response = formatJsonRpcError(record.id, record.response.error);
+      await this.sequence.client.relayer.publish(settled.topic, response, {
+        relay: settled.relay,
+      });
+    } catch (e) {
+      this.sequence.logger.error(e);
+    }
+  }
+
   private registerEventListeners(): void {
     // Pending Subscription Events
     this.sequence.pending.on(
@@ -750,6 +1145,10 @@ export class Engine extends IEngine {
       (updatedEvent: SubscriptionEvent.Updated<SequenceTypes.Pending>) =>
         this.onPendingStatusEvent(updatedEvent),
     );
+    // JSON-RPC History Events
+    this.sequence.history.on(HISTORY_EVENTS.expired, (record: JsonRpcRecord) =>
+      this.onHistoryExpired(record),
+    );
     // Settled Subscription Events
     this.sequence.settled.on(
       SUBSCRIPTION_EVENTS.payload,
@@ -783,6 +1182,8 @@ export class Engine extends IEngine {
         this.sequence.logger.info(`Emitting ${eventName}`);
         this.sequence.logger.debug({ type: "event", event: eventName, data: settled, reason });
         this.sequence.events.emit(eventName, settled, reason);
+        // the instance that deleted it has already notified the peer
+        if (deletedEvent.synced) return;
         const request = formatJsonRpcRequest(this.sequence.config.jsonrpc.delete, { reason });
         await this.sequence.history.delete(settled.topic);
         await this.sequence.client.relayer.publish(settled.topic, request, {
@@ -790,6 +1191,41 @@ export class Engine extends IEngine {
         });
       },
     );
+    this.sequence.settled.on(
+      SUBSCRIPTION_EVENTS.moved,
+      (movedEvent: SubscriptionEvent.Moved<SequenceTypes.Settled>) => {
+        const { data: settled, previousTopic } = movedEvent;
+        const eventName = this.sequence.config.events.rotated;
+        this.sequence.logger.info(`Emitting ${eventName}`);
+        this.sequence.logger.debug({
+          type: "event",
+          event: eventName,
+          data: settled,
+          previousTopic,
+        });
+        this.sequence.events.emit(eventName, settled, previousTopic);
+      },
+    );
+    this.sequence.settled.on(
+      SUBSCRIPTION_EVENTS.retired,
+      async (retiredEvent: SubscriptionEvent.Retired<SequenceTypes.Settled>) => {
+        try {
+          await this.sequence.client.crypto.keychain.del(retiredEvent.previousTopic);
+        } catch (e) {
+          this.sequence.logger.error(e);
+        }
+      },
+    );
+    this.sequence.settled.on(
+      SUBSCRIPTION_EVENTS.expiring,
+      (expiringEvent: SubscriptionEvent.Expiring<SequenceTypes.Settled>) => {
+        const { data: settled, threshold } = expiringEvent;
+        const eventName = this.sequence.config.events.expiring;
+        this.sequence.logger.info(`Emitting ${eventName}`);
+        this.sequence.logger.debug({ type: "event", event: eventName, data: settled, threshold });
+        this.sequence.events.emit(eventName, settled, threshold);
+      },
+    );
     this.sequence.settled.on(SUBSCRIPTION_EVENTS.sync, () =>
       this.sequence.events.emit(this.sequence.config.events.sync),
     );
@@ -1,16 +1,35 @@
 import { EventEmitter } from "events";
 import { Logger } from "pino";
-import { IClient, IJsonRpcHistory, JsonRpcRecord, RequestEvent } from "@walletconnect/types";
-import { ERROR } from "@walletconnect/utils";
+import {
+  IClient,
+  IJsonRpcHistory,
+  JsonRpcHistoryQuery,
+  JsonRpcRecord,
+  JsonRpcRecordDirection,
+  JsonRpcRecordStatus,
+  JsonRpcStatusEvent,
+  RequestEvent,
+  StorageTypes,
+} from "@walletconnect/types";
+import { ERROR, mergeValues } from "@walletconnect/utils";
 import {
   formatJsonRpcRequest,
   isJsonRpcError,
+  ErrorResponse,
   JsonRpcRequest,
   JsonRpcResponse,
 } from "@json-rpc-tools/utils";
 import { generateChildLogger, getLoggerContext } from "@pedrouid/pino-utils";
+import { safeJsonStringify } from "safe-json-utils";
 
-import { HISTORY_CONTEXT, HISTORY_EVENTS } from "../constants";
+import {
+  CLIENT_EVENTS,
+  HISTORY_CONTEXT,
+  HISTORY_DIRECTION,
+  HISTORY_EVENTS,
+  HISTORY_STATUS,
+  STORAGE_EVENTS,
+} from "../constants";
 
 export class JsonRpcHistory extends IJsonRpcHistory {
   public records = new Map<number, JsonRpcRecord>();
@@ -33,6 +52,12 @@ export class JsonRpcHistory extends IJsonRpcHistory {
     await this.restore();
   }
 
+  public async close(): Promise<void> {
+    this.logger.trace({ type: "method", method: "close" });
+    await this.persist();
+    this.events.removeAllListeners();
+  }
+
   get size(): number {
     return this.records.size;
   }
@@ -49,20 +74,36 @@ export class JsonRpcHistory extends IJsonRpcHistory {
     const requests: RequestEvent[] = [];
     this.values.forEach(record => {
       if (typeof record.response !== "undefined") return;
+      if (this.isExpired(record)) return;
       const requestEvent: RequestEvent = {
         topic: record.topic,
         request: formatJsonRpcRequest(record.request.method, record.request.params, record.id),
         chainId: record.chainId,
       };
+      if (typeof record.expiry !== "undefined") requestEvent.expiry = record.expiry;
       return requests.push(requestEvent);
     });
     return requests;
   }
 
-  public async set(topic: string, request: JsonRpcRequest, chainId?: string): Promise<void> {
+  public async set(
+    topic: string,
+    request: JsonRpcRequest,
+    chainId?: string,
+    expiry?: number,
+    direction: JsonRpcRecordDirection = HISTORY_DIRECTION.sent,
+  ): Promise<void> {
     await this.isEnabled();
     this.logger.debug(`Setting JSON-RPC request history record`);
-    this.logger.trace({ type: "method", method: "set", topic, request, chainId });
+    this.logger.trace({
+      type: "method",
+      method: "set",
+      topic,
+      request,
+      chainId,
+      expiry,
+      direction,
+    });
     if (this.records.has(request.id)) {
       const error = ERROR.RECORD_ALREADY_EXISTS.format({
         context: this.getHistoryContext(),
@@ -76,9 +117,17 @@ export class JsonRpcHistory extends IJsonRpcHistory {
       topic,
       request: { method: request.method, params: request.params || null },
       chainId,
+      status: HISTORY_STATUS.pending,
+      direction,
+      createdAt: Date.now(),
     };
+    // only requests received from the peer expire, sent ones time out locally instead
+    if (typeof expiry !== "undefined" && direction === HISTORY_DIRECTION.received) {
+      record.expiry = expiry;
+    }
     this.records.set(record.id, record);
     this.events.emit(HISTORY_EVENTS.created, record);
+    await this.prune(topic);
   }
 
   public async update(topic: string, response: JsonRpcResponse): Promise<void> {
@@ -92,8 +141,12 @@ export class JsonRpcHistory extends IJsonRpcHistory {
     record.response = isJsonRpcError(response)
       ? { error: response.error }
       : { result: response.result };
+    record.respondedAt = Date.now();
+    const previousStatus = record.status;
+    record.status = this.getStatus(record);
     this.records.set(record.id, record);
     this.events.emit(HISTORY_EVENTS.updated, record);
+    this.events.emit(HISTORY_EVENTS.status, { record, previousStatus } as JsonRpcStatusEvent);
   }
 
   public async get(topic: string, id: number): Promise<JsonRpcRecord> {
@@ -125,6 +178,16 @@ export class JsonRpcHistory extends IJsonRpcHistory {
     });
   }
 
+  public async move(topic: string, newTopic: string): Promise<void> {
+    await this.isEnabled();
+    this.logger.debug(`Moving records`);
+    this.logger.trace({ type: "method", method: "move", topic, newTopic });
+    const records = this.values.filter(record => record.topic === topic);
+    if (!records.length) return;
+    records.forEach(record => this.records.set(record.id, { ...record, topic: newTopic }));
+    await this.persist();
+  }
+
   public async exists(topic: string, id: number): Promise<boolean> {
     await this.isEnabled();
     if (!this.records.has(id)) return false;
@@ -132,6 +195,28 @@ export class JsonRpcHistory extends IJsonRpcHistory {
     return record.topic === topic;
   }
 
+  public async query(query: JsonRpcHistoryQuery = {}): Promise<JsonRpcRecord[]> {
+    await this.isEnabled();
+    this.logger.debug(`Querying records`);
+    this.logger.trace({ type: "method", method: "query", query });
+    return this.values.filter(record => {
+      if (typeof query.topic !== "undefined" && record.topic !== query.topic) return false;
+      if (typeof query.method !== "undefined" && record.request.method !== query.method) {
+        return false;
+      }
+      if (typeof query.chainId !== "undefined" && record.chainId !== query.chainId) return false;
+      if (typeof query.status !== "undefined" && record.status !== query.status) return false;
+      if (typeof query.from !== "undefined" && record.createdAt < query.from) return false;
+      if (typeof query.to !== "undefined" && record.createdAt > query.to) return false;
+      return true;
+    });
+  }
+
+  public async export(query?: JsonRpcHistoryQuery): Promise<string> {
+    const records = await this.query(query);
+    return records.map(record => safeJsonStringify(record)).join("\n");
+  }
+
   public on(event: string, listener: any): void {
     this.events.on(event, listener);
   }
@@ -179,15 +264,152 @@ export class JsonRpcHistory extends IJsonRpcHistory {
     return record;
   }
 
+  private getStatus(record: Omit<JsonRpcRecord, "status">): JsonRpcRecordStatus {
+    if (typeof record.response === "undefined") return HISTORY_STATUS.pending;
+    if (!("error" in record.response)) return HISTORY_STATUS.resolved;
+    switch ((record.response.error as ErrorResponse).code) {
+      case ERROR.JSONRPC_REQUEST_CANCELLED.code:
+        return HISTORY_STATUS.cancelled;
+      case ERROR.JSONRPC_REQUEST_EXPIRED.code:
+        return HISTORY_STATUS.expired;
+      default:
+        return HISTORY_STATUS.rejected;
+    }
+  }
+
+  // records persisted before timestamps, direction and status were tracked
+  private migrate(persisted: JsonRpcRecord & { timestamp?: number }): JsonRpcRecord {
+    const { timestamp, ...record } = persisted;
+    return {
+      ...record,
+      status: record.status || this.getStatus(record),
+      createdAt: record.createdAt || timestamp || Date.now(),
+    };
+  }
+
+  private isValidRecord(record: any): record is JsonRpcRecord {
+    return (
+      typeof record === "object" &&
+      typeof record.id === "number" &&
+      typeof record.topic === "string" &&
+      typeof record.request?.method === "string"
+    );
+  }
+
+  // moves unreadable records to quarantine so the rest can still be restored
+  private async sanitize(persisted: any): Promise<JsonRpcRecord[]> {
+    const storageKey = this.getStorageKey();
+    const reason = ERROR.MISSING_OR_INVALID.format({ name: `${this.getHistoryContext()} record` })
+      .message;
+    if (!Array.isArray(persisted)) {
+      await this.client.storage.quarantine(storageKey, persisted, reason);
+      await this.client.storage.removeItem(storageKey);
+      return [];
+    }
+    const valid = persisted.filter(record => this.isValidRecord(record));
+    if (valid.length === persisted.length) return valid;
+    for (const record of persisted.filter(record => !this.isValidRecord(record))) {
+      await this.client.storage.quarantine(storageKey, record, reason);
+    }
+    await this.client.storage.setItem<JsonRpcRecord[]>(storageKey, valid);
+    return valid;
+  }
+
+  private async prune(topic?: string): Promise<void> {
+    if (this.cached.length) return;
+    const { maxRecordsPerTopic, maxAge } = this.client.historyRetention;
+    const pruned = new Map<number, JsonRpcRecord>();
+    // pending records still await a response so only answered ones are evicted
+    const answered = this.values.filter(record => typeof record.response !== "undefined");
+    if (typeof maxAge !== "undefined") {
+      const threshold = Date.now() - maxAge * 1000;
+      answered.forEach(record => {
+        if (record.createdAt < threshold) {
+          pruned.set(record.id, record);
+        }
+      });
+    }
+    if (typeof maxRecordsPerTopic !== "undefined") {
+      const topics =
+        typeof topic !== "undefined" ? [topic] : this.values.map(record => record.topic);
+      new Set(topics).forEach(recordTopic => {
+        const records = this.values.filter(
+          record => record.topic === recordTopic && !pruned.has(record.id),
+        );
+        records
+          .filter(record => typeof record.response !== "undefined")
+          .sort((a, b) => a.createdAt - b.createdAt || a.id - b.id)
+          .slice(0, Math.max(records.length - maxRecordsPerTopic, 0))
+          .forEach(record => pruned.set(record.id, record));
+      });
+    }
+    if (!pruned.size) return;
+    this.logger.debug(`Pruning ${pruned.size} records`);
+    pruned.forEach(record => this.records.delete(record.id));
+    await this.persist();
+    this.events.emit(HISTORY_EVENTS.pruned, Array.from(pruned.values()));
+  }
+
+  private isExpired(record: JsonRpcRecord): boolean {
+    return typeof record.expiry !== "undefined" && record.expiry <= Date.now();
+  }
+
+  private checkExpired(): void {
+    if (this.cached.length) return;
+    this.values.forEach(record => {
+      if (typeof record.response !== "undefined") return;
+      if (record.direction !== HISTORY_DIRECTION.received) return;
+      if (!this.isExpired(record)) return;
+      const error = ERROR.JSONRPC_REQUEST_EXPIRED.format({ method: record.request.method });
+      record.response = { error };
+      record.respondedAt = Date.now();
+      const previousStatus = record.status;
+      record.status = HISTORY_STATUS.expired;
+      this.records.set(record.id, record);
+      this.events.emit(HISTORY_EVENTS.expired, record);
+      this.events.emit(HISTORY_EVENTS.status, { record, previousStatus } as JsonRpcStatusEvent);
+    });
+  }
+
+  private getMergeOptions(): StorageTypes.MergeOptions<JsonRpcRecord> {
+    return { getId: record => record.id };
+  }
+
   private async persist() {
-    await this.client.storage.setItem<JsonRpcRecord[]>(this.getStorageKey(), this.values);
+    await this.client.storage.merge<JsonRpcRecord>(
+      this.getStorageKey(),
+      this.values,
+      this.getMergeOptions(),
+    );
+    this.events.emit(HISTORY_EVENTS.sync);
+  }
+
+  // applies records written by another client instance sharing the same storage
+  private onStorageChanged(change: StorageTypes.Change<JsonRpcRecord[]>) {
+    if (change.key !== this.getStorageKey()) return;
+    if (this.cached.length) return;
+    const previous = Array.isArray(change.previous) ? change.previous : [];
+    const remote = Array.isArray(change.value) ? change.value : [];
+    const { getId } = this.getMergeOptions();
+    const merged = mergeValues<JsonRpcRecord>(
+      previous,
+      this.values,
+      remote.filter(record => this.isValidRecord(record)),
+      getId,
+    );
+    const ids = new Set(merged.map(record => record.id));
+    this.values.forEach(record => {
+      if (!ids.has(record.id)) this.records.delete(record.id);
+    });
+    merged.forEach(record => this.records.set(record.id, record));
     this.events.emit(HISTORY_EVENTS.sync);
   }
 
   private async restore() {
     try {
-      const persisted = await this.client.storage.getItem<JsonRpcRecord[]>(this.getStorageKey());
-      if (typeof persisted === "undefined") return;
+      const stored = await this.client.storage.getItem(this.getStorageKey());
+      if (typeof stored === "undefined") return;
+      const persisted = await this.sanitize(stored);
       if (!persisted.length) return;
       if (this.records.size) {
         const error = ERROR.RESTORE_WILL_OVERRIDE.format({
@@ -196,18 +418,21 @@ export class JsonRpcHistory extends IJsonRpcHistory {
         this.logger.error(error.message);
         throw new Error(error.message);
       }
-      this.cached = persisted;
+      this.cached = persisted.map(record => this.migrate(record));
       await Promise.all(
         this.cached.map(async record => {
           this.records.set(record.id, record);
         }),
       );
       await this.enable();
+      if (persisted.some(record => typeof record.status === "undefined")) await this.persist();
+      await this.prune();
       this.logger.debug(`Successfully Restored records for ${this.getHistoryContext()}`);
       this.logger.trace({ type: "method", method: "restore", records: this.values });
     } catch (e) {
       this.logger.debug(`Failed to Restore records for ${this.getHistoryContext()}`);
       this.logger.error(e);
+      throw e;
     }
   }
 
@@ -241,6 +466,13 @@ export class JsonRpcHistory extends IJsonRpcHistory {
   }
 
   private registerEventListeners(): void {
+    this.client.on(CLIENT_EVENTS.beat, () => {
+      this.checkExpired();
+      this.prune().catch(e => this.logger.error(e));
+    });
+    this.client.storage.on(STORAGE_EVENTS.changed, (change: StorageTypes.Change) =>
+      this.onStorageChanged(change),
+    );
     this.events.on(HISTORY_EVENTS.created, (record: JsonRpcRecord) => {
       const eventName = HISTORY_EVENTS.created;
       this.logger.info(`Emitting ${eventName}`);
@@ -254,11 +486,27 @@ export class JsonRpcHistory extends IJsonRpcHistory {
       this.persist();
     });
 
+    this.events.on(HISTORY_EVENTS.status, (statusEvent: JsonRpcStatusEvent) => {
+      const eventName = HISTORY_EVENTS.status;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: statusEvent });
+    });
     this.events.on(HISTORY_EVENTS.deleted, (record: JsonRpcRecord) => {
       const eventName = HISTORY_EVENTS.deleted;
       this.logger.info(`Emitting ${eventName}`);
       this.logger.debug({ type: "event", event: eventName, record });
       this.persist();
     });
+    this.events.on(HISTORY_EVENTS.pruned, (records: JsonRpcRecord[]) => {
+      const eventName = HISTORY_EVENTS.pruned;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, records });
+    });
+    this.events.on(HISTORY_EVENTS.expired, (record: JsonRpcRecord) => {
+      const eventName = HISTORY_EVENTS.expired;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, record });
+      this.persist();
+    });
   }
 }
@@ -1,4 +1,6 @@
 export * from "./pairing";
+export * from "./pairings";
 export * from "./relayer";
 export * from "./session";
+export * from "./storage";
 export * from "./subscription";
@@ -1,9 +1,9 @@
 import { EventEmitter } from "events";
 import { Logger } from "pino";
 import { generateChildLogger } from "@pedrouid/pino-utils";
-import { PairingTypes, IClient, IPairing } from "@walletconnect/types";
+import { CloseParams, PairingTypes, IClient, IPairing, UriParameters } from "@walletconnect/types";
 import { formatUri } from "@walletconnect/utils";
-import { JsonRpcPayload } from "@json-rpc-tools/utils";
+import { JsonRpcPayload, JsonRpcResponse } from "@json-rpc-tools/utils";
 
 import { Subscription } from "./subscription";
 import { JsonRpcHistory } from "./history";
@@ -16,6 +16,7 @@ import {
   PAIRING_SIGNAL_METHOD_URI,
   SESSION_JSONRPC,
   PAIRING_DEFAULT_TTL,
+  PAIRING_DEFAULT_URI_OPTIONS,
 } from "../constants";
 
 export class Pairing extends IPairing {
@@ -35,7 +36,13 @@ export class Pairing extends IPairing {
 
   public engine: Engine;
 
-  constructor(public client: IClient, public logger: Logger) {
+  private uri: PairingTypes.UriOptions;
+
+  constructor(
+    public client: IClient,
+    public logger: Logger,
+    uri?: Partial<PairingTypes.UriOptions>,
+  ) {
     super(client, logger);
     this.logger = generateChildLogger(logger, this.context);
     this.pending = new Subscription<PairingTypes.Pending>(
@@ -50,6 +57,7 @@ export class Pairing extends IPairing {
     );
     this.history = new JsonRpcHistory(client, this.logger);
     this.engine = new Engine(this);
+    this.uri = { ...PAIRING_DEFAULT_URI_OPTIONS, ...uri };
   }
 
   public async init(): Promise<void> {
@@ -59,6 +67,15 @@ export class Pairing extends IPairing {
     await this.history.init();
   }
 
+  public async close(params?: CloseParams): Promise<void> {
+    this.logger.trace({ type: "method", method: "close", params });
+    await this.pending.close(params);
+    await this.settled.close(params);
+    await this.history.close();
+    await this.engine.close();
+    this.events.removeAllListeners();
+  }
+
   public get(topic: string): Promise<PairingTypes.Settled> {
     return this.settled.get(topic);
   }
@@ -99,10 +116,22 @@ export class Pairing extends IPairing {
     return this.engine.update(params);
   }
 
+  public rotate(params: PairingTypes.RotateParams): Promise<PairingTypes.Settled> {
+    return this.engine.rotate(params);
+  }
+
+  public extend(params: PairingTypes.ExtendParams): Promise<PairingTypes.Settled> {
+    return this.engine.extend(params);
+  }
+
   public request(params: PairingTypes.RequestParams): Promise<any> {
     return this.engine.request(params);
   }
 
+  public requestBatch(params: PairingTypes.BatchRequestParams): Promise<JsonRpcResponse[]> {
+    return this.engine.requestBatch(params);
+  }
+
   public delete(params: PairingTypes.DeleteParams): Promise<void> {
     return this.engine.delete(params);
   }
@@ -166,15 +195,29 @@ export class Pairing extends IPairing {
     // nothing to validate
   }
 
-  public async getDefaultSignal({ topic, relay, proposer }: PairingTypes.DefaultSignalParams) {
-    const uri = formatUri({
+  public async getDefaultSignal({
+    topic,
+    relay,
+    proposer,
+    ttl,
+    ciphers,
+  }: PairingTypes.DefaultSignalParams) {
+    const params: UriParameters = {
       protocol: this.client.protocol,
       version: this.client.version,
       topic: topic,
       publicKey: proposer.publicKey,
       controller: proposer.controller,
       relay: relay,
-    });
+      ciphers: ciphers,
+    };
+    if (this.uri.expiry) params.expiryTimestamp = Date.now() + ttl * 1000;
+    if (this.uri.metadata && typeof proposer.metadata !== "undefined") {
+      // uris must stay short enough for QR codes
+      const { name, url, icons } = proposer.metadata;
+      params.metadata = { name, description: "", url, icons: icons.slice(0, 1) };
+    }
+    const uri = formatUri(params);
     const signal: PairingTypes.Signal = {
       method: PAIRING_SIGNAL_METHOD_URI,
       params: { uri },
@@ -0,0 +1,153 @@
+import { Logger } from "pino";
+import { generateChildLogger } from "@pedrouid/pino-utils";
+import { IClient, IPairingManager, PairingTypes, Reason } from "@walletconnect/types";
+import { ERROR } from "@walletconnect/utils";
+
+import {
+  CLIENT_EVENTS,
+  PAIRING_CONTEXT,
+  PAIRING_DEFAULT_PRUNE_OPTIONS,
+  PAIRING_MANAGER_CONTEXT,
+} from "../constants";
+
+export class PairingManager extends IPairingManager {
+  public readonly context: string = PAIRING_MANAGER_CONTEXT;
+
+  private prune: PairingTypes.PruneOptions | undefined;
+
+  // pairings without a ping record are first pinged one interval after start
+  private startedAt = Date.now();
+
+  private pruning = false;
+
+  // persisted so restarts don't reset failed pings nor ping intervals
+  private records = new Map<string, PairingTypes.PruneRecord>();
+
+  constructor(
+    public client: IClient,
+    public logger: Logger,
+    prune?: Partial<PairingTypes.PruneOptions>,
+  ) {
+    super(client, logger);
+    this.logger = generateChildLogger(logger, this.context);
+    this.prune =
+      typeof prune !== "undefined" ? { ...PAIRING_DEFAULT_PRUNE_OPTIONS, ...prune } : undefined;
+    this.registerEventListeners();
+  }
+
+  public async init(): Promise<void> {
+    this.logger.trace(`Initialized`);
+    await this.restore();
+  }
+
+  public async close(): Promise<void> {
+    this.logger.trace({ type: "method", method: "close" });
+    this.prune = undefined;
+    this.records.clear();
+  }
+
+  public list(): PairingTypes.Settled[] {
+    return this.client.pairing.values;
+  }
+
+  public async rename(topic: string, label: string): Promise<void> {
+    this.logger.debug(`Renaming Pairing`);
+    this.logger.trace({ type: "method", method: "rename", topic, label });
+    await this.client.pairing.settled.update(topic, { label });
+  }
+
+  public async ping(topic: string, timeout?: number): Promise<void> {
+    this.logger.debug(`Pinging Pairing`);
+    this.logger.trace({ type: "method", method: "ping", topic });
+    const failedPings = this.records.get(topic)?.failedPings || 0;
+    try {
+      await this.client.pairing.ping(topic, timeout);
+      this.records.set(topic, { topic, failedPings: 0, pingedAt: Date.now() });
+    } catch (e) {
+      this.records.set(topic, { topic, failedPings: failedPings + 1, pingedAt: Date.now() });
+      throw e;
+    } finally {
+      await this.persist();
+    }
+  }
+
+  public async delete(topic: string, reason?: Reason): Promise<void> {
+    this.logger.debug(`Deleting Pairing`);
+    this.logger.trace({ type: "method", method: "delete", topic, reason });
+    await this.client.pairing.delete({
+      topic,
+      reason: reason || ERROR.USER_DISCONNECTED.format(),
+    });
+    this.records.delete(topic);
+    await this.persist();
+  }
+
+  // ---------- Private ----------------------------------------------- //
+
+  private async prunePairing(topic: string, prune: PairingTypes.PruneOptions): Promise<void> {
+    try {
+      await this.ping(topic);
+    } catch (e) {
+      const attempts = this.records.get(topic)?.failedPings || 0;
+      if (attempts < prune.maxFailedPings) return;
+      this.logger.info(`Pruning unreachable pairing ${topic}`);
+      await this.delete(
+        topic,
+        ERROR.PEER_UNREACHABLE.format({ context: PAIRING_CONTEXT, attempts }),
+      );
+    }
+  }
+
+  private async prunePairings(topics: string[], prune: PairingTypes.PruneOptions): Promise<void> {
+    this.pruning = true;
+    // each pairing is caught on its own so the round only ends once every ping has settled
+    await Promise.all(
+      topics.map(topic => this.prunePairing(topic, prune).catch(e => this.logger.error(e))),
+    );
+    this.pruning = false;
+  }
+
+  private onBeat(): void {
+    if (typeof this.prune === "undefined" || this.pruning) return;
+    // unreachable relay would count as unreachable peers
+    if (!this.client.relayer.connected) return;
+    const interval = this.prune.interval * 1000;
+    const topics = this.list()
+      .map(pairing => pairing.topic)
+      .filter(
+        topic => Date.now() - (this.records.get(topic)?.pingedAt || this.startedAt) >= interval,
+      );
+    if (!topics.length) return;
+    this.prunePairings(topics, this.prune);
+  }
+
+  private getStorageKey() {
+    const storageKeyPrefix = `${this.client.protocol}@${this.client.version}:${this.client.context}`;
+    return `${storageKeyPrefix}//${this.context}`;
+  }
+
+  // merged so that records of other instances on the same storage are not overwritten
+  private async persist() {
+    await this.client.storage.merge<PairingTypes.PruneRecord>(
+      this.getStorageKey(),
+      Array.from(this.records.values()),
+      { getId: record => record.topic },
+    );
+  }
+
+  private async restore() {
+    const persisted = await this.client.storage.getItem<PairingTypes.PruneRecord[]>(
+      this.getStorageKey(),
+    );
+    if (!Array.isArray(persisted)) return;
+    this.records = new Map(persisted.map(record => [record.topic, record]));
+  }
+
+  private registerEventListeners(): void {
+    this.client.on(CLIENT_EVENTS.beat, () => this.onBeat());
+    this.client.pairing.on(
+      this.client.pairing.config.events.deleted,
+      (pairing: PairingTypes.Settled) => this.records.delete(pairing.topic),
+    );
+  }
+}
@@ -3,7 +3,7 @@ import { Logger } from "pino";
 import { generateChildLogger } from "@pedrouid/pino-utils";
 import { RelayerTypes, IRelayer, IClient } from "@walletconnect/types";
 import { RelayJsonRpc, RELAY_JSONRPC } from "relay-provider";
-import { formatRelayRpcUrl } from "@walletconnect/utils";
+import { formatRelayRpcUrl, sha256 } from "@walletconnect/utils";
 import { utf8ToHex, hexToUtf8 } from "enc-utils";
 import {
   IJsonRpcProvider,
@@ -18,11 +18,18 @@ import { WsConnection } from "@json-rpc-tools/ws-connection";
 import { safeJsonParse, safeJsonStringify } from "safe-json-utils";
 
 import {
+  CLIENT_EVENTS,
+  RELAYER_BATCH_JSONRPC,
   RELAYER_CONTEXT,
   RELAYER_DEFAULT_PROTOCOL,
   RELAYER_DEFAULT_RPC_URL,
   RELAYER_DEFAULT_PUBLISH_TTL,
+  RELAYER_DEFAULT_RECONNECT_OPTIONS,
   RELAYER_EVENTS,
+  RELAYER_FAILOVER_ATTEMPTS,
+  RELAYER_FAILOVER_ERRORS,
+  RELAYER_PUBLISH_MAX_ATTEMPTS,
+  RELAYER_SEEN_CACHE_SIZE,
 } from "../constants";
 
 export class Relayer extends IRelayer {
@@ -32,10 +39,44 @@ export class Relayer extends IRelayer {
 
   public context: string = RELAYER_CONTEXT;
 
-  constructor(public client: IClient, public logger: Logger, provider?: string | IJsonRpcProvider) {
+  // keyed by topic and payload id since responses reuse the id of the peer's request
+  public queue = new Map<string, RelayerTypes.QueuedMessage>();
+
+  private seen = new Set<string>();
+
+  // hashes of messages currently being handled, not yet marked as seen
+  private handling = new Set<string>();
+
+  // seen hashes are persisted on beat rather than on every message
+  private seenChanged = false;
+
+  private flushing = false;
+
+  private reconnect: Required<RelayerTypes.ReconnectOptions>;
+
+  private reconnectAttempts = 0;
+
+  private reconnectTimeout: NodeJS.Timeout | undefined;
+
+  private closed = false;
+
+  private rpcUrls: string[] = [];
+
+  private rpcUrlIndex = 0;
+
+  private errors = 0;
+
+  constructor(
+    public client: IClient,
+    public logger: Logger,
+    provider?: string | string[] | IJsonRpcProvider,
+    reconnect?: RelayerTypes.ReconnectOptions,
+  ) {
     super(client, logger);
     this.logger = generateChildLogger(logger, this.context);
+    this.reconnect = { ...RELAYER_DEFAULT_RECONNECT_OPTIONS, ...reconnect };
     this.provider = this.setProvider(provider);
+    this.registerProviderListeners();
     this.registerEventListeners();
   }
 
@@ -45,7 +86,23 @@ export class Relayer extends IRelayer {
 
   public async init(): Promise<void> {
     this.logger.trace(`Initialized`);
-    await this.provider.connect();
+    await this.restore();
+    await this.connect();
+  }
+
+  public async close(): Promise<void> {
+    this.logger.trace({ type: "method", method: "close" });
+    this.closed = true;
+    this.resetReconnect();
+    await this.persistQueue();
+    await this.persistSeen();
+    try {
+      await this.provider.disconnect();
+    } catch (e) {
+      this.logger.error(e);
+    }
+    this.provider.events.removeAllListeners();
+    this.events.removeAllListeners();
   }
 
   public async publish(
@@ -56,27 +113,30 @@ export class Relayer extends IRelayer {
     this.logger.debug(`Publishing Payload`);
     this.logger.trace({ type: "method", method: "publish", params: { topic, payload, opts } });
     try {
-      const protocol = opts?.relay.protocol || RELAYER_DEFAULT_PROTOCOL;
       const msg = safeJsonStringify(payload);
       const hasKeys = await this.client.crypto.hasKeys(topic);
       const message = hasKeys ? await this.client.crypto.encrypt(topic, msg) : utf8ToHex(msg);
-      const jsonRpc = getRelayProtocolJsonRpc(protocol);
-      const request: RequestArguments<RelayJsonRpc.PublishParams> = {
-        method: jsonRpc.publish,
-        params: {
-          topic,
-          message,
-          ttl: opts?.ttl || RELAYER_DEFAULT_PUBLISH_TTL,
-        },
-      };
-      this.logger.debug(`Outgoing Relay Payload`);
-      this.logger.trace({ type: "payload", direction: "outgoing", request });
-      await this.provider.request(request);
+      const queued: RelayerTypes.QueuedMessage = { id: payload.id, topic, message, opts };
+      if (!this.connected || this.queue.size) {
+        await this.enqueue(queued);
+        return;
+      }
+      try {
+        await this.rpcPublish(queued);
+      } catch (e) {
+        if (this.connected) throw e;
+        await this.enqueue(queued);
+        return;
+      }
       this.logger.debug(`Successfully Published Payload`);
-      this.logger.trace({ type: "method", method: "publish", request });
+      this.logger.trace({ type: "method", method: "publish", params: { topic, payload, opts } });
     } catch (e) {
       this.logger.debug(`Failed to Publish Payload`);
       this.logger.error(e);
+      this.events.emit(RELAYER_EVENTS.failed, {
+        id: payload.id,
+        topic,
+      } as RelayerTypes.MessageEvent);
       throw e;
     }
   }
@@ -100,13 +160,7 @@ export class Relayer extends IRelayer {
       this.logger.debug(`Outgoing Relay Payload`);
       this.logger.trace({ type: "payload", direction: "outgoing", request });
       const id = await this.provider.request(request);
-      this.events.on(id, async ({ message }) => {
-        const hasKeys = await this.client.crypto.hasKeys(topic);
-        const payload = safeJsonParse(
-          hasKeys ? await this.client.crypto.decrypt(topic, message) : hexToUtf8(message),
-        );
-        listener(payload);
-      });
+      this.setSubscriptionListener(id, topic, listener);
       this.logger.debug(`Successfully Subscribed Topic`);
       this.logger.trace({ type: "method", method: "subscribe", request });
       return id;
@@ -143,6 +197,74 @@ export class Relayer extends IRelayer {
     }
   }
 
+  public async batchSubscribe(
+    topics: string[],
+    listener: (topic: string, payload: JsonRpcPayload) => void,
+    opts?: RelayerTypes.SubscribeOptions,
+  ): Promise<string[]> {
+    this.logger.debug(`Batch Subscribing Topics`);
+    this.logger.trace({ type: "method", method: "batchSubscribe", params: { topics, opts } });
+    const protocol = opts?.relay.protocol || RELAYER_DEFAULT_PROTOCOL;
+    const jsonRpc = getRelayProtocolBatchJsonRpc(protocol);
+    const request: RequestArguments<RelayerTypes.BatchSubscribeParams> = {
+      method: jsonRpc.batchSubscribe,
+      params: {
+        topics,
+      },
+    };
+    let ids: string[];
+    try {
+      this.logger.debug(`Outgoing Relay Payload`);
+      this.logger.trace({ type: "payload", direction: "outgoing", request });
+      ids = await this.provider.request(request);
+    } catch (e) {
+      this.logger.debug(`Failed to Batch Subscribe Topics, subscribing individually`);
+      this.logger.error(e);
+      return Promise.all(
+        topics.map(topic =>
+          this.subscribe(topic, (payload: JsonRpcPayload) => listener(topic, payload), opts),
+        ),
+      );
+    }
+    topics.forEach((topic, index) =>
+      this.setSubscriptionListener(ids[index], topic, (payload: JsonRpcPayload) =>
+        listener(topic, payload),
+      ),
+    );
+    this.logger.debug(`Successfully Batch Subscribed Topics`);
+    this.logger.trace({ type: "method", method: "batchSubscribe", request });
+    return ids;
+  }
+
+  public async batchUnsubscribe(
+    ids: string[],
+    opts?: RelayerTypes.SubscribeOptions,
+  ): Promise<void> {
+    this.logger.debug(`Batch Unsubscribing Topics`);
+    this.logger.trace({ type: "method", method: "batchUnsubscribe", params: { ids, opts } });
+    const protocol = opts?.relay.protocol || RELAYER_DEFAULT_PROTOCOL;
+    const jsonRpc = getRelayProtocolBatchJsonRpc(protocol);
+    const request: RequestArguments<RelayerTypes.BatchUnsubscribeParams> = {
+      method: jsonRpc.batchUnsubscribe,
+      params: {
+        ids,
+      },
+    };
+    try {
+      this.logger.debug(`Outgoing Relay Payload`);
+      this.logger.trace({ type: "payload", direction: "outgoing", request });
+      await this.provider.request(request);
+    } catch (e) {
+      this.logger.debug(`Failed to Batch Unsubscribe Topics, unsubscribing individually`);
+      this.logger.error(e);
+      await Promise.all(ids.map(id => this.unsubscribe(id, opts)));
+      return;
+    }
+    ids.forEach(id => this.events.removeAllListeners(id));
+    this.logger.debug(`Successfully Batch Unsubscribed Topics`);
+    this.logger.trace({ type: "method", method: "batchUnsubscribe", request });
+  }
+
   public on(event: string, listener: any): void {
     this.events.on(event, listener);
   }
@@ -161,6 +283,181 @@ export class Relayer extends IRelayer {
 
   // ---------- Private ----------------------------------------------- //
 
+  private getStorageKey(name: string) {
+    const storageKeyPrefix = `${this.client.protocol}@${this.client.version}:${this.client.context}`;
+    return `${storageKeyPrefix}//${this.context}:${name}`;
+  }
+
+  private async rpcPublish(queued: RelayerTypes.QueuedMessage): Promise<void> {
+    const { id, topic, message, opts } = queued;
+    const protocol = opts?.relay.protocol || RELAYER_DEFAULT_PROTOCOL;
+    const jsonRpc = getRelayProtocolJsonRpc(protocol);
+    const request: RequestArguments<RelayJsonRpc.PublishParams> = {
+      method: jsonRpc.publish,
+      params: {
+        topic,
+        message,
+        ttl: opts?.ttl || RELAYER_DEFAULT_PUBLISH_TTL,
+      },
+    };
+    this.logger.debug(`Outgoing Relay Payload`);
+    this.logger.trace({ type: "payload", direction: "outgoing", request });
+    await this.provider.request(request);
+    this.events.emit(RELAYER_EVENTS.published, { id, topic } as RelayerTypes.MessageEvent);
+  }
+
+  private getQueueKey(queued: RelayerTypes.QueuedMessage): string {
+    return `${queued.topic}:${queued.id}`;
+  }
+
+  private async enqueue(queued: RelayerTypes.QueuedMessage): Promise<void> {
+    this.logger.debug(`Queueing Payload`);
+    this.logger.trace({ type: "method", method: "enqueue", queued });
+    this.queue.set(this.getQueueKey(queued), queued);
+    await this.persistQueue();
+    this.events.emit(RELAYER_EVENTS.queued, {
+      id: queued.id,
+      topic: queued.topic,
+    } as RelayerTypes.MessageEvent);
+    if (this.connected) this.flush();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.closed || this.flushing || !this.queue.size) return;
+    this.flushing = true;
+    this.logger.debug(`Flushing Queued Payloads`);
+    this.logger.trace({ type: "method", method: "flush", queue: this.queue.size });
+    try {
+      while (this.queue.size && this.connected) {
+        const queued: RelayerTypes.QueuedMessage = this.queue.values().next().value;
+        try {
+          await this.rpcPublish(queued);
+        } catch (e) {
+          if (!this.connected) break;
+          this.logger.debug(`Failed to Publish Queued Payload`);
+          this.logger.error(e);
+          const attempts = (queued.attempts || 0) + 1;
+          if (attempts < RELAYER_PUBLISH_MAX_ATTEMPTS) {
+            // kept at the head of the queue and retried on the next beat
+            this.queue.set(this.getQueueKey(queued), { ...queued, attempts });
+            await this.persistQueue();
+            break;
+          }
+          this.events.emit(RELAYER_EVENTS.failed, {
+            id: queued.id,
+            topic: queued.topic,
+          } as RelayerTypes.MessageEvent);
+        }
+        this.queue.delete(this.getQueueKey(queued));
+        await this.persistQueue();
+      }
+    } catch (e) {
+      this.logger.debug(`Failed to Flush Queued Payloads`);
+      this.logger.error(e);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private setSubscriptionListener(
+    id: string,
+    topic: string,
+    listener: (payload: JsonRpcPayload) => void,
+  ): void {
+    this.events.on(id, async ({ message }) => {
+      const hash = await sha256(message);
+      if (this.seen.has(hash) || this.handling.has(hash)) {
+        this.logger.debug(`Ignoring Duplicate Relay Message`);
+        this.logger.trace({ type: "message", topic, message });
+        return;
+      }
+      this.handling.add(hash);
+      try {
+        const hasKeys = await this.client.crypto.hasKeys(topic);
+        const payload = safeJsonParse(
+          hasKeys ? await this.client.crypto.decrypt(topic, message) : hexToUtf8(message),
+        );
+        listener(payload);
+        this.setSeen(hash);
+      } catch (e) {
+        // not marked as seen so that a redelivery of the message is handled again
+        this.logger.debug(`Failed to Handle Relay Message`);
+        this.logger.error(e);
+      } finally {
+        this.handling.delete(hash);
+      }
+    });
+  }
+
+  private setSeen(hash: string): void {
+    this.seen.add(hash);
+    if (this.seen.size > RELAYER_SEEN_CACHE_SIZE) {
+      this.seen.delete(this.seen.values().next().value);
+    }
+    this.seenChanged = true;
+  }
+
+  // merged so that payloads queued by other instances on the same storage are not dropped
+  private async persistQueue() {
+    await this.client.storage.merge<RelayerTypes.QueuedMessage>(
+      this.getStorageKey("queue"),
+      Array.from(this.queue.values()),
+      { getId: queued => this.getQueueKey(queued) },
+    );
+  }
+
+  private async persistSeen() {
+    this.seenChanged = false;
+    const merged = await this.client.storage.merge<string>(
+      this.getStorageKey("seen"),
+      Array.from(this.seen.values()),
+      { getId: hash => hash },
+    );
+    // hashes seen by other instances are adopted, as well as the ones handled while merging
+    const seen = Array.from(new Set([...merged, ...Array.from(this.seen.values())]));
+    this.seen = new Set(seen.slice(-RELAYER_SEEN_CACHE_SIZE));
+  }
+
+  private async restore() {
+    await this.restoreQueue();
+    await this.restoreSeen();
+  }
+
+  private async restoreQueue() {
+    try {
+      const persisted = await this.client.storage.getItem<RelayerTypes.QueuedMessage[]>(
+        this.getStorageKey("queue"),
+      );
+      if (typeof persisted === "undefined") return;
+      if (!persisted.length) return;
+      const queued = Array.from(this.queue.values());
+      this.queue.clear();
+      [...persisted, ...queued].forEach(message =>
+        this.queue.set(this.getQueueKey(message), message),
+      );
+      this.logger.debug(`Successfully Restored queued payloads`);
+      this.logger.trace({ type: "method", method: "restoreQueue", queue: this.queue.size });
+    } catch (e) {
+      this.logger.debug(`Failed to Restore queued payloads`);
+      this.logger.error(e);
+    }
+  }
+
+  private async restoreSeen() {
+    try {
+      const persisted = await this.client.storage.getItem<string[]>(this.getStorageKey("seen"));
+      if (typeof persisted === "undefined") return;
+      if (!persisted.length) return;
+      const seen = Array.from(this.seen.values());
+      this.seen = new Set([...persisted, ...seen].slice(-RELAYER_SEEN_CACHE_SIZE));
+      this.logger.debug(`Successfully Restored seen messages`);
+      this.logger.trace({ type: "method", method: "restoreSeen", seen: this.seen.size });
+    } catch (e) {
+      this.logger.debug(`Failed to Restore seen messages`);
+      this.logger.error(e);
+    }
+  }
+
   private onPayload(payload: JsonRpcPayload) {
     this.logger.debug(`Incoming Relay Payload`);
     this.logger.trace({ type: "payload", direction: "incoming", payload });
@@ -174,27 +471,134 @@ export class Relayer extends IRelayer {
     }
   }
 
-  private setProvider(provider?: string | IJsonRpcProvider): IJsonRpcProvider {
+  private setProvider(provider?: string | string[] | IJsonRpcProvider): IJsonRpcProvider {
     this.logger.debug(`Setting Relay Provider`);
     this.logger.trace({ type: "method", method: "setProvider", provider: provider?.toString() });
-    const rpcUrl = formatRelayRpcUrl(
-      this.client.protocol,
-      this.client.version,
-      typeof provider === "string" ? provider : RELAYER_DEFAULT_RPC_URL,
-    );
-    return typeof provider !== "string" && typeof provider !== "undefined"
-      ? provider
-      : new JsonRpcProvider(new WsConnection(rpcUrl));
+    if (
+      typeof provider !== "string" &&
+      typeof provider !== "undefined" &&
+      !Array.isArray(provider)
+    ) {
+      return provider;
+    }
+    const rpcUrls = ([] as string[]).concat(provider || []);
+    this.rpcUrls = rpcUrls.length ? rpcUrls : [RELAYER_DEFAULT_RPC_URL];
+    return this.createProvider(this.rpcUrls[this.rpcUrlIndex]);
   }
 
-  private registerEventListeners(): void {
+  private createProvider(url: string): IJsonRpcProvider {
+    const rpcUrl = formatRelayRpcUrl(this.client.protocol, this.client.version, url);
+    return new JsonRpcProvider(new WsConnection(rpcUrl));
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      await this.provider.connect();
+    } catch (e) {
+      if (this.rpcUrlIndex >= this.rpcUrls.length - 1) throw e;
+      this.logger.error(e);
+      this.failover();
+      await this.connect();
+    }
+  }
+
+  private failover(): void {
+    if (this.rpcUrls.length < 2) return;
+    this.rpcUrlIndex = (this.rpcUrlIndex + 1) % this.rpcUrls.length;
+    const rpcUrl = this.rpcUrls[this.rpcUrlIndex];
+    this.logger.debug(`Failing over Relay Provider`);
+    this.logger.trace({ type: "method", method: "failover", rpcUrl });
+    const previous = this.provider;
+    previous.events.removeAllListeners();
+    previous.disconnect().catch(e => this.logger.error(e));
+    this.errors = 0;
+    this.provider = this.createProvider(rpcUrl);
+    this.registerProviderListeners();
+    this.events.emit(RELAYER_EVENTS.failover, { rpcUrl } as RelayerTypes.FailoverEvent);
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed) return;
+    if (typeof this.reconnectTimeout !== "undefined") return;
+    if (this.reconnectAttempts >= this.reconnect.maxAttempts) {
+      this.logger.debug(`Failed to Reconnect Relay Provider`);
+      this.logger.trace({ type: "method", method: "reconnect", attempts: this.reconnectAttempts });
+      this.events.emit(RELAYER_EVENTS.reconnect_failed, {
+        attempt: this.reconnectAttempts,
+        delay: 0,
+      } as RelayerTypes.ReconnectEvent);
+      return;
+    }
+    if (this.reconnectAttempts && this.reconnectAttempts % RELAYER_FAILOVER_ATTEMPTS === 0) {
+      this.failover();
+    }
+    this.reconnectAttempts++;
+    const delay = getReconnectDelay(this.reconnectAttempts, this.reconnect);
+    this.logger.debug(`Reconnecting Relay Provider`);
+    this.logger.trace({
+      type: "method",
+      method: "reconnect",
+      attempt: this.reconnectAttempts,
+      delay,
+    });
+    this.events.emit(RELAYER_EVENTS.reconnecting, {
+      attempt: this.reconnectAttempts,
+      delay,
+    } as RelayerTypes.ReconnectEvent);
+    if (!delay) {
+      this.onReconnect();
+      return;
+    }
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = undefined;
+      this.onReconnect();
+    }, delay);
+  }
+
+  private async onReconnect(): Promise<void> {
+    try {
+      await this.provider.connect();
+    } catch (e) {
+      this.logger.error(e);
+      this.scheduleReconnect();
+    }
+  }
+
+  private resetReconnect(): void {
+    this.reconnectAttempts = 0;
+    if (typeof this.reconnectTimeout === "undefined") return;
+    clearTimeout(this.reconnectTimeout);
+    this.reconnectTimeout = undefined;
+  }
+
+  private onError(e: Error): void {
+    this.events.emit(RELAYER_EVENTS.error, e);
+    if (!this.connected) return;
+    this.errors++;
+    if (this.errors < RELAYER_FAILOVER_ERRORS || this.rpcUrls.length < 2) return;
+    this.failover();
+    this.onReconnect();
+  }
+
+  private registerProviderListeners(): void {
     this.provider.on("payload", (payload: JsonRpcPayload) => this.onPayload(payload));
-    this.provider.on("connect", () => this.events.emit(RELAYER_EVENTS.connect));
+    this.provider.on("connect", () => {
+      this.resetReconnect();
+      this.events.emit(RELAYER_EVENTS.connect);
+      this.flush();
+    });
     this.provider.on("disconnect", () => {
       this.events.emit(RELAYER_EVENTS.disconnect);
-      this.provider.connect();
+      this.scheduleReconnect();
+    });
+    this.provider.on("error", (e: Error) => this.onError(e));
+  }
+
+  private registerEventListeners(): void {
+    this.client.on(CLIENT_EVENTS.beat, () => {
+      if (this.connected) this.flush();
+      if (this.seenChanged) this.persistSeen().catch(e => this.logger.error(e));
     });
-    this.provider.on("error", e => this.events.emit(RELAYER_EVENTS.error, e));
   }
 }
 
@@ -205,3 +609,17 @@ function getRelayProtocolJsonRpc(protocol: string) {
   }
   return jsonrpc;
 }
+
+function getRelayProtocolBatchJsonRpc(protocol: string) {
+  const jsonrpc = RELAYER_BATCH_JSONRPC[protocol];
+  if (typeof jsonrpc === "undefined") {
+    throw new Error(`Relay Protocol not supported: ${protocol}`);
+  }
+  return jsonrpc;
+}
+
+function getReconnectDelay(attempt: number, opts: Required<RelayerTypes.ReconnectOptions>) {
+  if (attempt <= 1) return 0;
+  const delay = Math.min(opts.maxDelay, opts.baseDelay * Math.pow(2, attempt - 2));
+  return Math.round(delay * (1 - opts.jitter * Math.random()));
+}
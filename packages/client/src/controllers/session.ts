@@ -1,14 +1,20 @@
 import { EventEmitter } from "events";
 import { Logger } from "pino";
 import { generateChildLogger } from "@pedrouid/pino-utils";
-import { IClient, ISession, SessionTypes } from "@walletconnect/types";
+import {
+  CloseParams,
+  IClient,
+  ISession,
+  SessionTypes,
+  SubscriptionEvent,
+} from "@walletconnect/types";
 import {
   validateSessionProposeParams,
   validateSessionRespondParams,
   isValidationInvalid,
   ERROR,
 } from "@walletconnect/utils";
-import { JsonRpcPayload } from "@json-rpc-tools/utils";
+import { JsonRpcPayload, JsonRpcResponse } from "@json-rpc-tools/utils";
 
 import { Subscription } from "./subscription";
 import { JsonRpcHistory } from "./history";
@@ -19,6 +25,9 @@ import {
   SESSION_STATUS,
   SESSION_SIGNAL_METHOD_PAIRING,
   SESSION_DEFAULT_TTL,
+  SESSION_DEFAULT_HEARTBEAT,
+  CLIENT_EVENTS,
+  SUBSCRIPTION_EVENTS,
 } from "../constants";
 import { Engine } from "./engine";
 
@@ -40,7 +49,23 @@ export class Session extends ISession {
   // TODO: fix type casting as any
   public engine: any;
 
-  constructor(public client: IClient, public logger: Logger) {
+  private heartbeat: SessionTypes.HeartbeatOptions | undefined;
+
+  // last known reachability of the peer for each settled topic
+  private online = new Map<string, boolean>();
+
+  // kept in memory so that recording it doesn't update the settled session on every contact
+  private lastSeen = new Map<string, number>();
+
+  private pingedAt = new Map<string, number>();
+
+  private pinging = new Set<string>();
+
+  constructor(
+    public client: IClient,
+    public logger: Logger,
+    heartbeat?: Partial<SessionTypes.HeartbeatOptions>,
+  ) {
     super(client, logger);
     this.logger = generateChildLogger(logger, this.context);
     this.pending = new Subscription<SessionTypes.Pending>(
@@ -55,6 +80,9 @@ export class Session extends ISession {
     );
     this.history = new JsonRpcHistory(client, this.logger);
     this.engine = new Engine(this);
+    this.heartbeat =
+      typeof heartbeat !== "undefined" ? { ...SESSION_DEFAULT_HEARTBEAT, ...heartbeat } : undefined;
+    this.registerEventListeners();
   }
 
   public async init(): Promise<void> {
@@ -64,12 +92,31 @@ export class Session extends ISession {
     await this.history.init();
   }
 
-  public get(topic: string): Promise<SessionTypes.Settled> {
-    return this.settled.get(topic);
+  public async close(params?: CloseParams): Promise<void> {
+    this.logger.trace({ type: "method", method: "close", params });
+    await this.pending.close(params);
+    await this.settled.close(params);
+    await this.history.close();
+    await this.engine.close();
+    this.heartbeat = undefined;
+    this.online.clear();
+    this.lastSeen.clear();
+    this.pingedAt.clear();
+    this.events.removeAllListeners();
+  }
+
+  public async get(topic: string): Promise<SessionTypes.Settled> {
+    return this.withLastSeen(await this.settled.get(topic));
   }
 
-  public ping(topic: string, timeout?: number): Promise<void> {
-    return this.engine.ping(topic, timeout);
+  public async ping(topic: string, timeout?: number): Promise<void> {
+    try {
+      await this.engine.ping(topic, timeout);
+    } catch (e) {
+      await this.setOnline(topic, false);
+      throw e;
+    }
+    await this.setOnline(topic, true);
   }
 
   public send(topic: string, payload: JsonRpcPayload, chainId?: string): Promise<void> {
@@ -85,7 +132,7 @@ export class Session extends ISession {
   }
 
   get values(): SessionTypes.Settled[] {
-    return this.settled.values.map(x => x.data);
+    return this.settled.values.map(x => this.withLastSeen(x.data));
   }
 
   public create(params?: SessionTypes.CreateParams): Promise<SessionTypes.Settled> {
@@ -106,10 +153,22 @@ export class Session extends ISession {
     return this.engine.update(params as any) as any;
   }
 
+  public rotate(params: SessionTypes.RotateParams): Promise<SessionTypes.Settled> {
+    return this.engine.rotate(params) as any;
+  }
+
+  public extend(params: SessionTypes.ExtendParams): Promise<SessionTypes.Settled> {
+    return this.engine.extend(params) as any;
+  }
+
   public request(params: SessionTypes.RequestParams): Promise<any> {
     return this.engine.request(params);
   }
 
+  public requestBatch(params: SessionTypes.BatchRequestParams): Promise<JsonRpcResponse[]> {
+    return this.engine.requestBatch(params);
+  }
+
   public delete(params: SessionTypes.DeleteParams): Promise<void> {
     return this.engine.delete(params);
   }
@@ -185,13 +244,19 @@ export class Session extends ISession {
       this.logger.error(error.message);
       throw new Error(error.message);
     }
-    const { topic, chainId } = params;
+    const { topic, request, chainId } = params;
     const settled = await this.settled.get(topic);
     if (chainId && !settled.permissions.blockchain.chains.includes(chainId)) {
       const error = ERROR.UNAUTHORIZED_TARGET_CHAIN.format({ chainId });
       this.logger.error(error.message);
       throw new Error(error.message);
     }
+    const validator = this.client.methods[request.method];
+    if (typeof validator?.params !== "undefined" && !validator.params(request.params)) {
+      const error = ERROR.MISSING_OR_INVALID.format({ name: `${request.method} params` });
+      this.logger.error(error.message);
+      throw new Error(error.message);
+    }
   }
 
   public async validatePropose(params?: SessionTypes.ProposeParams) {
@@ -238,4 +303,59 @@ export class Session extends ISession {
       },
     };
   }
+
+  // ---------- Private ----------------------------------------------- //
+
+  private async setOnline(topic: string, online: boolean): Promise<void> {
+    if (!this.settled.topics.includes(topic)) return;
+    if (online) this.lastSeen.set(topic, Date.now());
+    if (this.online.get(topic) === online) return;
+    this.online.set(topic, online);
+    const session = await this.get(topic);
+    const eventName = online ? this.config.events.online : this.config.events.offline;
+    this.logger.info(`Emitting ${eventName}`);
+    this.logger.debug({ type: "event", event: eventName, data: session });
+    this.events.emit(eventName, session);
+  }
+
+  private onBeat(): void {
+    if (typeof this.heartbeat === "undefined") return;
+    // peers can't be reached while the relay is disconnected
+    if (!this.client.relayer.connected) return;
+    const { interval, timeout } = this.heartbeat;
+    this.topics.forEach(topic => {
+      if (this.pinging.has(topic)) return;
+      if (Date.now() - (this.pingedAt.get(topic) || 0) < interval * 1000) return;
+      this.pinging.add(topic);
+      this.pingedAt.set(topic, Date.now());
+      this.ping(topic, timeout * 1000)
+        .catch(e => this.logger.debug(e))
+        .finally(() => this.pinging.delete(topic));
+    });
+  }
+
+  private withLastSeen(session: SessionTypes.Settled): SessionTypes.Settled {
+    const lastSeen = this.lastSeen.get(session.topic);
+    return typeof lastSeen !== "undefined" ? { ...session, lastSeen } : session;
+  }
+
+  private onDeleted(topic: string): void {
+    this.online.delete(topic);
+    this.lastSeen.delete(topic);
+    this.pingedAt.delete(topic);
+  }
+
+  private registerEventListeners(): void {
+    this.client.on(CLIENT_EVENTS.beat, () => this.onBeat());
+    // any message from the peer proves it is reachable
+    this.settled.on(SUBSCRIPTION_EVENTS.payload, (payloadEvent: SubscriptionEvent.Payload) =>
+      this.setOnline(payloadEvent.topic, true).catch(e => this.logger.error(e)),
+    );
+    this.events.on(this.config.events.deleted, (session: SessionTypes.Settled) =>
+      this.onDeleted(session.topic),
+    );
+    this.events.on(this.config.events.rotated, (_: SessionTypes.Settled, previousTopic: string) =>
+      this.onDeleted(previousTopic),
+    );
+  }
 }
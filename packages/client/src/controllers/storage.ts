@@ -0,0 +1,274 @@
+import { EventEmitter } from "events";
+import { Logger } from "pino";
+import { IKeyValueStorage } from "keyvaluestorage";
+import { generateChildLogger } from "@pedrouid/pino-utils";
+import { IClient, IStorage, StorageTypes } from "@walletconnect/types";
+import { ERROR, generateRandomBytes32, mergeValues } from "@walletconnect/utils";
+import { safeJsonParse, safeJsonStringify } from "safe-json-utils";
+
+import { CLIENT_EVENTS, STORAGE_CONTEXT, STORAGE_EVENTS, STORAGE_VERSION } from "../constants";
+
+interface StorageChannel {
+  instances: Set<Storage>;
+  queue: Promise<any>;
+}
+
+// only instances sharing the same IKeyValueStorage object within one process coordinate through a
+// channel, instances in other processes or browser tabs are not locked out nor elected, their writes
+// are noticed by polling on beat and reconciled by merge, and each of them still handles every
+// inbound request on the topics it subscribes to
+const channels = new WeakMap<IKeyValueStorage, StorageChannel>();
+
+export class Storage extends IStorage {
+  public events = new EventEmitter();
+
+  public readonly id = generateRandomBytes32();
+
+  public readonly context: string = STORAGE_CONTEXT;
+
+  public version = STORAGE_VERSION;
+
+  public migrations = new Map<number, StorageTypes.Migration>();
+
+  // last serialized value this instance has seen for each key it has read or written
+  private synced = new Map<string, string | undefined>();
+
+  private channel: StorageChannel;
+
+  constructor(
+    public client: IClient,
+    public logger: Logger,
+    public storage: IKeyValueStorage,
+    migrations?: StorageTypes.Migrations,
+  ) {
+    super(client, logger, storage);
+    this.logger = generateChildLogger(logger, this.context);
+    Object.entries(migrations || {}).forEach(([version, migration]) =>
+      this.register(Number(version), migration),
+    );
+    this.channel = this.getChannel();
+    this.channel.instances.add(this);
+    this.registerEventListeners();
+  }
+
+  public async init(): Promise<void> {
+    this.logger.trace(`Initialized`);
+    await this.migrate();
+  }
+
+  public async close(): Promise<void> {
+    this.logger.trace({ type: "method", method: "close" });
+    // pending merges are flushed before releasing the channel
+    await this.channel.queue;
+    this.channel.instances.delete(this);
+    this.events.removeAllListeners();
+  }
+
+  public register(version: number, migration: StorageTypes.Migration): void {
+    if (!Number.isInteger(version) || version <= STORAGE_VERSION) {
+      const error = ERROR.MISSING_OR_INVALID.format({ name: "storage migration version" });
+      this.logger.error(error.message);
+      throw new Error(error.message);
+    }
+    this.migrations.set(version, migration);
+    this.version = Math.max(this.version, version);
+  }
+
+  public async getKeys(): Promise<string[]> {
+    return this.storage.getKeys();
+  }
+
+  public async getEntries<T = any>(): Promise<[string, T][]> {
+    return this.storage.getEntries<T>();
+  }
+
+  public async getItem<T = any>(key: string): Promise<T | undefined> {
+    const value = await this.storage.getItem<T>(key);
+    this.synced.set(key, this.serialize(value));
+    return value;
+  }
+
+  public async setItem<T = any>(key: string, value: T): Promise<void> {
+    await this.storage.setItem<T>(key, value);
+    this.synced.set(key, this.serialize(value));
+    this.broadcast(key);
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    await this.storage.removeItem(key);
+    this.synced.set(key, undefined);
+    this.broadcast(key);
+  }
+
+  // serializes writes of instances sharing this channel only, it is not a lock across processes
+  public async enqueue<T = any>(callback: () => Promise<T>): Promise<T> {
+    const result = this.channel.queue.then(callback);
+    this.channel.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // three-way merge against the last value seen, a write from another process landing between the
+  // read and the write below is lost
+  public async merge<T = any>(
+    key: string,
+    values: T[],
+    opts: StorageTypes.MergeOptions<T>,
+  ): Promise<T[]> {
+    return this.enqueue(async () => {
+      const previous = this.synced.get(key);
+      const base = this.parse<T[]>(previous);
+      const stored = await this.storage.getItem<T[]>(key);
+      const merged = mergeValues<T>(
+        Array.isArray(base) ? base : [],
+        values,
+        Array.isArray(stored) ? stored : [],
+        opts.getId,
+        opts.serialize,
+      );
+      await this.setItem<T[]>(key, merged);
+      if (this.serialize(stored) !== previous) {
+        this.events.emit(STORAGE_EVENTS.changed, {
+          key,
+          value: merged,
+          previous: base,
+        } as StorageTypes.Change<T[]>);
+      }
+      return merged;
+    });
+  }
+
+  public async quarantine(key: string, value: any, reason: string): Promise<void> {
+    this.logger.warn(`Quarantining record for ${key}: ${reason}`);
+    const quarantined = await this.getQuarantined();
+    const entry: StorageTypes.Quarantined = { key, value, reason, timestamp: Date.now() };
+    quarantined.push(entry);
+    await this.storage.setItem<StorageTypes.Quarantined[]>(
+      this.getStorageKey("quarantine"),
+      quarantined,
+    );
+    this.events.emit(STORAGE_EVENTS.quarantined, entry);
+  }
+
+  public async getQuarantined(): Promise<StorageTypes.Quarantined[]> {
+    const quarantined = await this.storage.getItem<StorageTypes.Quarantined[]>(
+      this.getStorageKey("quarantine"),
+    );
+    return quarantined || [];
+  }
+
+  public on(event: string, listener: any): void {
+    this.events.on(event, listener);
+  }
+
+  public once(event: string, listener: any): void {
+    this.events.once(event, listener);
+  }
+
+  public off(event: string, listener: any): void {
+    this.events.off(event, listener);
+  }
+
+  public removeListener(event: string, listener: any): void {
+    this.events.removeListener(event, listener);
+  }
+
+  // ---------- Private ----------------------------------------------- //
+
+  private getChannel(): StorageChannel {
+    let channel = channels.get(this.storage);
+    if (typeof channel === "undefined") {
+      channel = { instances: new Set(), queue: Promise.resolve() };
+      channels.set(this.storage, channel);
+    }
+    return channel;
+  }
+
+  private serialize(value: any): string | undefined {
+    return typeof value === "undefined" ? undefined : safeJsonStringify(value);
+  }
+
+  private parse<T = any>(serialized: string | undefined): T | undefined {
+    return typeof serialized === "undefined" ? undefined : (safeJsonParse(serialized) as T);
+  }
+
+  private broadcast(key: string): void {
+    this.channel.instances.forEach(instance => {
+      if (instance !== this) instance.check(key);
+    });
+  }
+
+  // compares a tracked key against the last value seen and notifies if another instance wrote it
+  private async check(key: string): Promise<void> {
+    if (!this.synced.has(key)) return;
+    const value = await this.storage.getItem(key);
+    const previous = this.synced.get(key);
+    const serialized = this.serialize(value);
+    if (serialized === previous) return;
+    this.synced.set(key, serialized);
+    this.events.emit(STORAGE_EVENTS.changed, {
+      key,
+      value,
+      previous: this.parse(previous),
+    } as StorageTypes.Change);
+  }
+
+  private getStorageKeyPrefix() {
+    return `${this.client.protocol}@${this.client.version}:${this.client.context}//`;
+  }
+
+  private getStorageKey(name: string) {
+    return `${this.getStorageKeyPrefix()}${this.context}:${name}`;
+  }
+
+  private async getMigratableKeys(): Promise<string[]> {
+    const prefix = this.getStorageKeyPrefix();
+    const keys = await this.storage.getKeys();
+    return keys.filter(
+      key => key.startsWith(prefix) && !key.startsWith(`${prefix}${this.context}:`),
+    );
+  }
+
+  private async migrate(): Promise<void> {
+    const versionKey = this.getStorageKey("version");
+    const persisted = (await this.storage.getItem<number>(versionKey)) || STORAGE_VERSION;
+    if (persisted > this.version) {
+      const error = ERROR.INVALID_STORAGE_VERSION.format({
+        version: persisted,
+        supported: this.version,
+      });
+      this.logger.error(error.message);
+      throw new Error(error.message);
+    }
+    for (let version = persisted + 1; version <= this.version; version++) {
+      const migration = this.migrations.get(version);
+      if (typeof migration === "undefined") continue;
+      this.logger.info(`Migrating storage to version ${version}`);
+      const keys = await this.getMigratableKeys();
+      for (const key of keys) {
+        const value = await this.storage.getItem(key);
+        try {
+          const migrated = await migration(key, value);
+          if (typeof migrated === "undefined") {
+            await this.storage.removeItem(key);
+          } else {
+            await this.storage.setItem(key, migrated);
+          }
+        } catch (e) {
+          await this.quarantine(key, value, `Migration to version ${version} failed: ${e.message}`);
+          await this.storage.removeItem(key);
+        }
+      }
+    }
+    await this.storage.setItem<number>(versionKey, this.version);
+  }
+
+  private registerEventListeners(): void {
+    // instances in other processes or browser tabs are only noticed by polling
+    this.client.on(CLIENT_EVENTS.beat, () => this.synced.forEach((_, key) => this.check(key)));
+    this.events.on(STORAGE_EVENTS.changed, (change: StorageTypes.Change) => {
+      const eventName = STORAGE_EVENTS.changed;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: change });
+    });
+  }
+}
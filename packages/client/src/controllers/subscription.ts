@@ -1,20 +1,25 @@
 import { EventEmitter } from "events";
 import { Logger } from "pino";
 import {
+  CloseParams,
   IClient,
   ISubscription,
   Reason,
+  RelayerTypes,
+  StorageTypes,
   SubscriptionEvent,
   SubscriptionOptions,
   SubscriptionParams,
 } from "@walletconnect/types";
-import { ERROR } from "@walletconnect/utils";
+import { ERROR, mergeValues } from "@walletconnect/utils";
 import { JsonRpcPayload } from "@json-rpc-tools/utils";
+import { safeJsonStringify } from "safe-json-utils";
 
 import {
   CLIENT_BEAT_INTERVAL,
   CLIENT_EVENTS,
   RELAYER_EVENTS,
+  STORAGE_EVENTS,
   SUBSCRIPTION_DEFAULT_TTL,
   SUBSCRIPTION_EVENTS,
 } from "../constants";
@@ -27,8 +32,16 @@ export class Subscription<Data = any> extends ISubscription<Data> {
 
   private timeout = new Map<string, NodeJS.Timeout>();
 
+  private expiring = new Map<string, number>();
+
   private cached: SubscriptionParams<Data>[] = [];
 
+  // relay subscriptions of previous topics mapped to the topic they moved to
+  private retiring = new Map<
+    string,
+    { id: string; topic: string; relay: RelayerTypes.ProtocolOptions }
+  >();
+
   constructor(public client: IClient, public logger: Logger, public context: string) {
     super(client, logger, context);
     this.logger = generateChildLogger(logger, this.context);
@@ -41,6 +54,19 @@ export class Subscription<Data = any> extends ISubscription<Data> {
     await this.restore();
   }
 
+  public async close(params?: CloseParams): Promise<void> {
+    this.logger.trace({ type: "method", method: "close", params });
+    this.resetTimeout();
+    if (params?.unsubscribe) {
+      await Promise.all([
+        ...this.values.map(({ id, relay }) => this.client.relayer.unsubscribe(id, { relay })),
+        ...this.values.map(({ topic }) => this.retire(topic)),
+      ]);
+    }
+    await this.persist();
+    this.events.removeAllListeners();
+  }
+
   get length(): number {
     return this.subscriptions.size;
   }
@@ -82,13 +108,19 @@ export class Subscription<Data = any> extends ISubscription<Data> {
     this.logger.trace({ type: "method", method: "update", topic, update });
     const subscription = await this.getSubscription(topic);
     const data = { ...subscription.data, ...update };
-    this.subscriptions.set(topic, {
+    const { expiry } = update as Partial<Data & { expiry: number }>;
+    this.subscriptions.set(subscription.topic, {
       ...subscription,
-      topic,
       data,
+      expiry: expiry || subscription.expiry,
     });
+    if (expiry && expiry !== subscription.expiry) {
+      this.expiring.delete(subscription.topic);
+      this.deleteTimeout(subscription.topic);
+      this.setTimeout(subscription.topic, expiry);
+    }
     this.events.emit(SUBSCRIPTION_EVENTS.updated, {
-      topic,
+      topic: subscription.topic,
       data,
       update,
     } as SubscriptionEvent.Updated<Data>);
@@ -100,17 +132,42 @@ export class Subscription<Data = any> extends ISubscription<Data> {
     this.logger.debug(`Deleting subscription`);
     this.logger.trace({ type: "method", method: "delete", topic, reason });
     const subscription = await this.getSubscription(topic);
-    this.subscriptions.delete(topic);
+    await this.retire(subscription.topic);
+    this.subscriptions.delete(subscription.topic);
+    this.expiring.delete(subscription.topic);
     await this.client.relayer.unsubscribe(subscription.id, {
       relay: subscription.relay,
     });
     this.events.emit(SUBSCRIPTION_EVENTS.deleted, {
-      topic,
+      topic: subscription.topic,
       data: subscription.data,
       reason,
     } as SubscriptionEvent.Deleted<Data>);
   }
 
+  public async move(topic: string, newTopic: string, data: Data): Promise<void> {
+    await this.isEnabled();
+    this.logger.debug(`Moving subscription`);
+    this.logger.trace({ type: "method", method: "move", topic, newTopic });
+    const subscription = await this.getSubscription(topic);
+    const { relay, expiry } = subscription;
+    // only the latest previous topic is kept subscribed
+    await this.retire(topic);
+    await this.subscribeAndSet(newTopic, data, { relay, expiry });
+    // the previous topic stays subscribed until the peer is seen on the new topic
+    const moved = await this.getSubscription(newTopic);
+    this.subscriptions.set(newTopic, { ...moved, previousTopic: topic });
+    this.retiring.set(topic, { id: subscription.id, topic: newTopic, relay });
+    this.deleteTimeout(topic);
+    this.subscriptions.delete(topic);
+    this.expiring.delete(topic);
+    this.events.emit(SUBSCRIPTION_EVENTS.moved, {
+      topic: newTopic,
+      previousTopic: topic,
+      data,
+    } as SubscriptionEvent.Moved<Data>);
+  }
+
   public on(event: string, listener: any): void {
     this.events.on(event, listener);
   }
@@ -130,6 +187,16 @@ export class Subscription<Data = any> extends ISubscription<Data> {
   // ---------- Protected ----------------------------------------------- //
 
   protected async onPayload(payloadEvent: SubscriptionEvent.Payload) {
+    const retiring = this.retiring.get(payloadEvent.topic);
+    if (typeof retiring !== "undefined") {
+      this.events.emit(SUBSCRIPTION_EVENTS.payload, { ...payloadEvent, topic: retiring.topic });
+      return;
+    }
+    try {
+      await this.retire(payloadEvent.topic);
+    } catch (e) {
+      this.logger.error(e);
+    }
     this.events.emit(SUBSCRIPTION_EVENTS.payload, payloadEvent);
   }
 
@@ -152,7 +219,7 @@ export class Subscription<Data = any> extends ISubscription<Data> {
 
   private async getSubscription(topic: string): Promise<SubscriptionParams<Data>> {
     await this.isEnabled();
-    const subscription = this.subscriptions.get(topic);
+    const subscription = this.subscriptions.get(this.retiring.get(topic)?.topic || topic);
     if (!subscription) {
       const error = ERROR.NO_MATCHING_TOPIC.format({
         context: this.getSubscriptionContext(),
@@ -180,6 +247,76 @@ export class Subscription<Data = any> extends ISubscription<Data> {
     this.setTimeout(topic, expiry);
   }
 
+  private async batchSubscribeAndSet(subscriptions: SubscriptionParams<Data>[]): Promise<void> {
+    const batches: Record<string, SubscriptionParams<Data>[]> = {};
+    subscriptions.forEach(subscription => {
+      const key = safeJsonStringify(subscription.relay);
+      batches[key] = [...(batches[key] || []), subscription];
+    });
+    await Promise.all(
+      Object.values(batches).map(async batch => {
+        const { relay } = batch[0];
+        const ids = await this.client.relayer.batchSubscribe(
+          batch.map(subscription => subscription.topic),
+          (topic: string, payload: JsonRpcPayload) => this.onPayload({ topic, payload }),
+          { relay },
+        );
+        batch.forEach((subscription, index) => {
+          const { topic, expiry } = subscription;
+          this.subscriptions.set(topic, { ...subscription, id: ids[index] });
+          this.setTimeout(topic, expiry);
+        });
+      }),
+    );
+    await this.subscribePrevious(subscriptions);
+  }
+
+  private async subscribePrevious(subscriptions: SubscriptionParams<Data>[]): Promise<void> {
+    await Promise.all(
+      subscriptions.map(async ({ topic, previousTopic, relay }) => {
+        if (typeof previousTopic === "undefined") return;
+        const id = await this.client.relayer.subscribe(
+          previousTopic,
+          (payload: JsonRpcPayload) => this.onPayload({ topic: previousTopic, payload }),
+          { relay },
+        );
+        this.retiring.set(previousTopic, { id, topic, relay });
+      }),
+    );
+  }
+
+  // unsubscribes previous topics already retired or removed by another client instance
+  private async unsubscribeRetired(): Promise<void> {
+    const retired = Array.from(this.retiring.entries()).filter(
+      ([previousTopic, { topic }]) =>
+        this.subscriptions.get(topic)?.previousTopic !== previousTopic,
+    );
+    retired.forEach(([previousTopic]) => this.retiring.delete(previousTopic));
+    await Promise.all(
+      retired.map(([_, { id, relay }]) => this.client.relayer.unsubscribe(id, { relay })),
+    );
+  }
+
+  // drops the previous topic once traffic arrives on the topic it moved to
+  private async retire(topic: string): Promise<void> {
+    const subscription = this.subscriptions.get(topic);
+    if (typeof subscription?.previousTopic === "undefined") return;
+    const { previousTopic, data } = subscription;
+    const retired = { ...subscription };
+    delete retired.previousTopic;
+    this.subscriptions.set(topic, retired);
+    const retiring = this.retiring.get(previousTopic);
+    this.retiring.delete(previousTopic);
+    if (typeof retiring !== "undefined") {
+      await this.client.relayer.unsubscribe(retiring.id, { relay: retiring.relay });
+    }
+    this.events.emit(SUBSCRIPTION_EVENTS.retired, {
+      topic,
+      previousTopic,
+      data,
+    } as SubscriptionEvent.Retired<Data>);
+  }
+
   private setTimeout(topic: string, expiry: number) {
     if (this.timeout.has(topic)) return;
     const ttl = expiry - Date.now();
@@ -197,6 +334,7 @@ export class Subscription<Data = any> extends ISubscription<Data> {
     const timeout = this.timeout.get(topic);
     if (typeof timeout === "undefined") return;
     clearTimeout(timeout);
+    this.timeout.delete(topic);
   }
 
   private resetTimeout(): void {
@@ -209,26 +347,139 @@ export class Subscription<Data = any> extends ISubscription<Data> {
     this.delete(topic, ERROR.EXPIRED.format({ context: this.getSubscriptionContext() }));
   }
 
+  private checkExpiring(subscription: SubscriptionParams<Data>): void {
+    const { topic, data, expiry } = subscription;
+    const ttl = expiry - Date.now();
+    if (ttl <= 0) return;
+    const thresholds = this.client.expiryWarnings.filter(threshold => ttl <= threshold * 1000);
+    if (!thresholds.length) return;
+    // only the closest threshold is emitted, once per subscription
+    const threshold = Math.min(...thresholds);
+    const previous = this.expiring.get(topic);
+    if (typeof previous !== "undefined" && previous <= threshold) return;
+    this.expiring.set(topic, threshold);
+    this.events.emit(SUBSCRIPTION_EVENTS.expiring, {
+      topic,
+      data,
+      expiry,
+      threshold,
+    } as SubscriptionEvent.Expiring<Data>);
+  }
+
   private checkSubscriptions(): void {
-    this.subscriptions.forEach(subscription =>
-      this.setTimeout(subscription.topic, subscription.expiry),
+    this.subscriptions.forEach(subscription => {
+      this.checkExpiring(subscription);
+      this.setTimeout(subscription.topic, subscription.expiry);
+    });
+  }
+
+  private isValidSubscription(subscription: any): subscription is SubscriptionParams<Data> {
+    return (
+      typeof subscription === "object" &&
+      typeof subscription.topic === "string" &&
+      typeof subscription.expiry === "number" &&
+      typeof subscription.relay === "object"
     );
   }
 
+  // moves unreadable subscriptions to quarantine so the rest can still be restored
+  private async sanitize(persisted: any): Promise<SubscriptionParams<Data>[]> {
+    const storageKey = this.getStorageKey();
+    const reason = ERROR.MISSING_OR_INVALID.format({
+      name: `${this.getSubscriptionContext()} subscription`,
+    }).message;
+    if (!Array.isArray(persisted)) {
+      await this.client.storage.quarantine(storageKey, persisted, reason);
+      await this.client.storage.removeItem(storageKey);
+      return [];
+    }
+    const valid = persisted.filter(subscription => this.isValidSubscription(subscription));
+    if (valid.length === persisted.length) return valid;
+    const invalid = persisted.filter(subscription => !this.isValidSubscription(subscription));
+    for (const subscription of invalid) {
+      await this.client.storage.quarantine(storageKey, subscription, reason);
+    }
+    await this.client.storage.setItem<SubscriptionParams<Data>[]>(storageKey, valid);
+    return valid;
+  }
+
+  private getMergeOptions(): StorageTypes.MergeOptions<SubscriptionParams<Data>> {
+    return {
+      getId: subscription => subscription.topic,
+      // relay subscription ids are specific to each client instance
+      serialize: ({ id, ...subscription }) => safeJsonStringify(subscription),
+    };
+  }
+
   private async persist() {
-    await this.client.storage.setItem<SubscriptionParams<Data>[]>(
+    await this.client.storage.merge<SubscriptionParams<Data>>(
       this.getStorageKey(),
       this.values,
+      this.getMergeOptions(),
+    );
+    this.events.emit(SUBSCRIPTION_EVENTS.sync);
+  }
+
+  // applies subscriptions written by another client instance sharing the same storage
+  private async onStorageChanged(change: StorageTypes.Change<SubscriptionParams<Data>[]>) {
+    if (change.key !== this.getStorageKey()) return;
+    if (this.cached.length) return;
+    const previous = Array.isArray(change.previous) ? change.previous : [];
+    const remote = Array.isArray(change.value) ? change.value : [];
+    const { getId, serialize } = this.getMergeOptions();
+    const merged = mergeValues<SubscriptionParams<Data>>(
+      previous,
+      this.values,
+      remote.filter(subscription => this.isValidSubscription(subscription)),
+      getId,
+      serialize,
+    );
+    const topics = new Set(merged.map(subscription => subscription.topic));
+    const removed = this.values.filter(subscription => !topics.has(subscription.topic));
+    const added = merged.filter(subscription => !this.subscriptions.has(subscription.topic));
+    removed.forEach(({ topic }) => {
+      this.subscriptions.delete(topic);
+      this.expiring.delete(topic);
+      this.deleteTimeout(topic);
+    });
+    merged.forEach(subscription => {
+      const current = this.subscriptions.get(subscription.topic);
+      if (typeof current === "undefined" || current === subscription) return;
+      this.subscriptions.set(subscription.topic, { ...subscription, id: current.id });
+      if (subscription.expiry === current.expiry) return;
+      this.expiring.delete(subscription.topic);
+      this.deleteTimeout(subscription.topic);
+      this.setTimeout(subscription.topic, subscription.expiry);
+    });
+    added.forEach(subscription => this.subscriptions.set(subscription.topic, subscription));
+    await Promise.all(
+      removed.map(({ id, relay }) => this.client.relayer.unsubscribe(id, { relay })),
+    );
+    await this.batchSubscribeAndSet(added);
+    await this.unsubscribeRetired();
+    removed.forEach(({ topic, data }) =>
+      this.events.emit(SUBSCRIPTION_EVENTS.deleted, {
+        topic,
+        data,
+        reason: ERROR.NO_MATCHING_TOPIC.format({ context: this.getSubscriptionContext(), topic }),
+        synced: true,
+      } as SubscriptionEvent.Deleted<Data>),
+    );
+    added.forEach(({ topic, data }) =>
+      this.events.emit(SUBSCRIPTION_EVENTS.created, {
+        topic,
+        data,
+        synced: true,
+      } as SubscriptionEvent.Created<Data>),
     );
     this.events.emit(SUBSCRIPTION_EVENTS.sync);
   }
 
   private async restore() {
     try {
-      const persisted = await this.client.storage.getItem<SubscriptionParams<Data>[]>(
-        this.getStorageKey(),
-      );
-      if (typeof persisted === "undefined") return;
+      const stored = await this.client.storage.getItem(this.getStorageKey());
+      if (typeof stored === "undefined") return;
+      const persisted = await this.sanitize(stored);
       if (!persisted.length) return;
       if (this.subscriptions.size) {
         const error = ERROR.RESTORE_WILL_OVERRIDE.format({
@@ -238,37 +489,20 @@ export class Subscription<Data = any> extends ISubscription<Data> {
         throw new Error(error.message);
       }
       this.cached = persisted;
-      await Promise.all(
-        this.cached.map(async subscription => {
-          const { topic, data } = subscription;
-          const opts = {
-            relay: subscription.relay,
-            expiry: subscription.expiry,
-          };
-          await this.subscribeAndSet(topic, data, opts);
-        }),
-      );
+      await this.batchSubscribeAndSet(this.cached);
       await this.enable();
       this.logger.debug(`Successfully Restored subscriptions for ${this.getSubscriptionContext()}`);
       this.logger.trace({ type: "method", method: "restore", subscriptions: this.values });
     } catch (e) {
       this.logger.debug(`Failed to Restore subscriptions for ${this.getSubscriptionContext()}`);
       this.logger.error(e);
+      throw e;
     }
   }
 
   private async reset(): Promise<void> {
     await this.disable();
-    await Promise.all(
-      this.cached.map(async subscription => {
-        const { topic, data } = subscription;
-        const opts = {
-          relay: subscription.relay,
-          expiry: subscription.expiry,
-        };
-        await this.subscribeAndSet(topic, data, opts);
-      }),
-    );
+    await this.batchSubscribeAndSet(this.cached);
     await this.enable();
   }
 
@@ -294,6 +528,9 @@ export class Subscription<Data = any> extends ISubscription<Data> {
 
   private registerEventListeners(): void {
     this.client.on(CLIENT_EVENTS.beat, () => this.checkSubscriptions());
+    this.client.storage.on(STORAGE_EVENTS.changed, (change: StorageTypes.Change) =>
+      this.onStorageChanged(change).catch(e => this.logger.error(e)),
+    );
     this.client.relayer.on(RELAYER_EVENTS.connect, () => this.reset());
     this.events.on(SUBSCRIPTION_EVENTS.payload, (payloadEvent: SubscriptionEvent.Payload) => {
       const eventName = SUBSCRIPTION_EVENTS.payload;
@@ -304,7 +541,7 @@ export class Subscription<Data = any> extends ISubscription<Data> {
       const eventName = SUBSCRIPTION_EVENTS.created;
       this.logger.info(`Emitting ${eventName}`);
       this.logger.debug({ type: "event", event: eventName, data: createdEvent });
-      this.persist();
+      if (!createdEvent.synced) this.persist();
     });
     this.events.on(SUBSCRIPTION_EVENTS.updated, (updatedEvent: SubscriptionEvent.Updated<Data>) => {
       const eventName = SUBSCRIPTION_EVENTS.updated;
@@ -316,6 +553,26 @@ export class Subscription<Data = any> extends ISubscription<Data> {
       const eventName = SUBSCRIPTION_EVENTS.deleted;
       this.logger.info(`Emitting ${eventName}`);
       this.logger.debug({ type: "event", event: eventName, data: deletedEvent });
+      if (!deletedEvent.synced) this.persist();
+    });
+    this.events.on(
+      SUBSCRIPTION_EVENTS.expiring,
+      (expiringEvent: SubscriptionEvent.Expiring<Data>) => {
+        const eventName = SUBSCRIPTION_EVENTS.expiring;
+        this.logger.info(`Emitting ${eventName}`);
+        this.logger.debug({ type: "event", event: eventName, data: expiringEvent });
+      },
+    );
+    this.events.on(SUBSCRIPTION_EVENTS.moved, (movedEvent: SubscriptionEvent.Moved<Data>) => {
+      const eventName = SUBSCRIPTION_EVENTS.moved;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: movedEvent });
+      this.persist();
+    });
+    this.events.on(SUBSCRIPTION_EVENTS.retired, (retiredEvent: SubscriptionEvent.Retired<Data>) => {
+      const eventName = SUBSCRIPTION_EVENTS.retired;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: retiredEvent });
       this.persist();
     });
   }
@@ -1,5 +1,7 @@
 import { Client as WalletConnectClient } from "./client";
 
+export { IKeyProvider } from "@walletconnect/types";
+
 export * from "./constants";
 
 export const Client = WalletConnectClient;
@@ -0,0 +1,62 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import {
+  formatJsonRpcError,
+  formatJsonRpcResult,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "@json-rpc-tools/utils";
+import { deriveSharedKey, generateKeyPair, mapToObj, objToMap, ERROR } from "@walletconnect/utils";
+
+import { KEY_PROVIDER_JSONRPC } from "../constants";
+
+// optional keystore file owned by this process, keys are otherwise lost when it exits
+const keystore: string | undefined = process.argv[2];
+
+// private keys never leave this process
+const privateKeys: Map<string, string> =
+  typeof keystore !== "undefined" && existsSync(keystore)
+    ? objToMap(JSON.parse(readFileSync(keystore, "utf8")))
+    : new Map();
+
+function persist(): void {
+  if (typeof keystore === "undefined") return;
+  writeFileSync(keystore, JSON.stringify(mapToObj(privateKeys)), { mode: 0o600 });
+}
+
+function onRequest(request: JsonRpcRequest): JsonRpcResponse {
+  try {
+    switch (request.method) {
+      case KEY_PROVIDER_JSONRPC.generateKeyPair: {
+        const keyPair = generateKeyPair();
+        privateKeys.set(keyPair.publicKey, keyPair.privateKey);
+        persist();
+        return formatJsonRpcResult(request.id, keyPair.publicKey);
+      }
+      case KEY_PROVIDER_JSONRPC.deriveSharedKey: {
+        const { publicKey, peerPublicKey } = request.params;
+        const privateKey = privateKeys.get(publicKey);
+        if (typeof privateKey === "undefined") {
+          return formatJsonRpcError(request.id, ERROR.NO_MATCHING_KEY.format({ tag: publicKey }));
+        }
+        return formatJsonRpcResult(request.id, deriveSharedKey(privateKey, peerPublicKey));
+      }
+      case KEY_PROVIDER_JSONRPC.deleteKeyPair: {
+        privateKeys.delete(request.params.publicKey);
+        persist();
+        return formatJsonRpcResult(request.id, true);
+      }
+      default:
+        return formatJsonRpcError(
+          request.id,
+          ERROR.UNKNOWN_JSONRPC_METHOD.format({ method: request.method }),
+        );
+    }
+  } catch (e) {
+    return formatJsonRpcError(request.id, e.message);
+  }
+}
+
+process.on("message", (request: JsonRpcRequest) => {
+  if (typeof process.send === "undefined") return;
+  process.send(onRequest(request));
+});
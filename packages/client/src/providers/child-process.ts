@@ -0,0 +1,96 @@
+import { ChildProcess, fork } from "child_process";
+import { join } from "path";
+import { IKeyProvider } from "@walletconnect/types";
+import {
+  formatJsonRpcRequest,
+  isJsonRpcError,
+  JsonRpcResponse,
+  JsonRpcResult,
+} from "@json-rpc-tools/utils";
+
+import { KEY_PROVIDER_JSONRPC } from "../constants";
+
+export interface ChildProcessKeyProviderOptions {
+  execArgv?: string[];
+  // file the worker persists private keys to, without it keys only live as long as the worker
+  // so pending proposals and key rotations cannot complete after the client restarts
+  keystore?: string;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+// Reference key provider which keeps private keys inside a forked worker process
+// and only exchanges public keys and derived shared keys with the client over IPC
+// node only, import it from "@walletconnect/client/dist/cjs/providers/child-process"
+export class ChildProcessKeyProvider implements IKeyProvider {
+  private child: ChildProcess | undefined;
+
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(public opts?: ChildProcessKeyProviderOptions) {
+    this.opts = opts;
+  }
+
+  public async init(): Promise<void> {
+    if (typeof this.child !== "undefined") return;
+    const worker = join(__dirname, "child-process-worker");
+    const args = typeof this.opts?.keystore !== "undefined" ? [this.opts.keystore] : [];
+    this.child =
+      typeof this.opts?.execArgv !== "undefined"
+        ? fork(worker, args, { execArgv: this.opts.execArgv })
+        : fork(worker, args);
+    this.child.on("message", (response: JsonRpcResponse) => this.onResponse(response));
+    this.child.on("exit", () => this.onExit());
+  }
+
+  public async generateKeyPair(): Promise<string> {
+    return this.request<string>(KEY_PROVIDER_JSONRPC.generateKeyPair, {});
+  }
+
+  public async deriveSharedKey(publicKey: string, peerPublicKey: string): Promise<string> {
+    return this.request<string>(KEY_PROVIDER_JSONRPC.deriveSharedKey, { publicKey, peerPublicKey });
+  }
+
+  public async deleteKeyPair(publicKey: string): Promise<void> {
+    await this.request<boolean>(KEY_PROVIDER_JSONRPC.deleteKeyPair, { publicKey });
+  }
+
+  public async close(): Promise<void> {
+    if (typeof this.child === "undefined") return;
+    this.child.kill();
+    this.onExit();
+  }
+
+  // ---------- Private ----------------------------------------------- //
+
+  private request<Result = any>(method: string, params: any): Promise<Result> {
+    return new Promise((resolve, reject) => {
+      if (typeof this.child === "undefined") {
+        return reject(new Error("Key provider process is not running"));
+      }
+      const request = formatJsonRpcRequest(method, params);
+      this.pending.set(request.id, { resolve, reject });
+      this.child.send(request);
+    });
+  }
+
+  private onResponse(response: JsonRpcResponse): void {
+    const pending = this.pending.get(response.id);
+    if (typeof pending === "undefined") return;
+    this.pending.delete(response.id);
+    if (isJsonRpcError(response)) {
+      pending.reject(new Error(response.error.message));
+    } else {
+      pending.resolve((response as JsonRpcResult).result);
+    }
+  }
+
+  private onExit(): void {
+    this.child = undefined;
+    this.pending.forEach(pending => pending.reject(new Error("Key provider process exited")));
+    this.pending.clear();
+  }
+}
@@ -1,12 +1,118 @@
 import "mocha";
+import sinon from "sinon";
+import { KeyValueStorage } from "keyvaluestorage";
+import { CryptoTypes } from "@walletconnect/types";
+import { ERROR } from "@walletconnect/utils";
 
 import Client from "../src";
 
-import { expect, TEST_CLIENT_OPTIONS } from "./shared";
+import {
+  expect,
+  setupClientsForTesting,
+  testApproveSession,
+  TEST_CLIENT_OPTIONS,
+  TEST_TIMEOUT_DURATION,
+} from "./shared";
 
-describe("Client", () => {
+const TEST_KEYCHAIN_OPTIONS: CryptoTypes.KeyChainOptions = {
+  passphrase: "correct horse battery staple",
+  iterations: 1000,
+};
+
+describe("Client", function() {
+  this.timeout(TEST_TIMEOUT_DURATION);
   it("instantiate successfully", async () => {
     const client = await Client.init(TEST_CLIENT_OPTIONS);
     expect(client).to.be.exist;
   });
+  it("persists keychain encrypted with passphrase", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const options = { ...TEST_CLIENT_OPTIONS, storage, keychainOptions: TEST_KEYCHAIN_OPTIONS };
+    const before = await Client.init(options);
+    const publicKey = await before.crypto.generateKeyPair();
+    const persisted = await storage.getItem<any>("wc@2:client//keychain");
+    expect(persisted.salt).to.be.a("string");
+    expect(persisted.encrypted).to.not.include(publicKey);
+    const after = await Client.init(options);
+    expect(await after.crypto.hasKeys(publicKey)).to.be.true;
+  });
+  it("fails to restore keychain with wrong passphrase", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    await Client.init({ ...TEST_CLIENT_OPTIONS, storage, keychainOptions: TEST_KEYCHAIN_OPTIONS });
+    let error: Error | undefined;
+    try {
+      await Client.init({
+        ...TEST_CLIENT_OPTIONS,
+        storage,
+        keychainOptions: { ...TEST_KEYCHAIN_OPTIONS, passphrase: "wrong" },
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error?.message).to.eql(ERROR.UNAUTHORIZED_KEYCHAIN_KEY.format().message);
+  });
+  it("quarantines corrupt keychain and initializes with empty keychain", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    await storage.setItem("wc@2:client//keychain", ["corrupt"]);
+    const client = await Client.init({ ...TEST_CLIENT_OPTIONS, storage });
+    const [quarantined] = await client.storage.getQuarantined();
+    expect(quarantined.key).to.eql("wc@2:client//keychain");
+    expect(quarantined.value).to.eql(["corrupt"]);
+    expect(await storage.getItem("wc@2:client//keychain")).to.be.undefined;
+  });
+  it("re-encrypts keychain when passphrase rotates", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const before = await Client.init({
+      ...TEST_CLIENT_OPTIONS,
+      storage,
+      keychainOptions: TEST_KEYCHAIN_OPTIONS,
+    });
+    const publicKey = await before.crypto.generateKeyPair();
+    const rotated = { ...TEST_KEYCHAIN_OPTIONS, passphrase: "rotated passphrase" };
+    await before.crypto.keychain.rotate(rotated);
+    const after = await Client.init({ ...TEST_CLIENT_OPTIONS, storage, keychainOptions: rotated });
+    expect(await after.crypto.hasKeys(publicKey)).to.be.true;
+  });
+  it("rejects keychain rotation without passphrase or wrapping key", async () => {
+    const client = await Client.init({
+      ...TEST_CLIENT_OPTIONS,
+      storage: new KeyValueStorage({ database: ":memory:" }),
+      keychainOptions: TEST_KEYCHAIN_OPTIONS,
+    });
+    let error: Error | undefined;
+    try {
+      await client.crypto.keychain.rotate({ passphrase: "" });
+    } catch (e) {
+      error = e;
+    }
+    expect(error?.message).to.eql(
+      ERROR.MISSING_OR_INVALID.format({ name: "keychain passphrase or wrapping key" }).message,
+    );
+  });
+  it("destroys and keeps persisted subscriptions", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const { setup, clients } = await setupClientsForTesting({
+      setup: { a: { options: { storage } } },
+    });
+    const topic = await testApproveSession(setup, clients);
+    const unsubscribe = sinon.spy(clients.a.relayer, "unsubscribe");
+    await clients.a.destroy();
+    expect(unsubscribe.called).to.be.false;
+    expect(clients.a.relayer.connected).to.be.false;
+    const restored = await Client.init(setup.a.options);
+    expect(restored.session.topics).to.include(topic);
+    await restored.destroy();
+  });
+  it("destroys and unsubscribes topics from the relay", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    await testApproveSession(setup, clients);
+    const unsubscribe = sinon.spy(clients.a.relayer, "unsubscribe");
+    const subscriptions = [clients.a.pairing, clients.a.session].reduce(
+      (count, sequence) => count + sequence.pending.length + sequence.settled.length,
+      0,
+    );
+    await clients.a.destroy({ unsubscribe: true });
+    expect(unsubscribe.callCount).to.eql(subscriptions);
+    expect(clients.a.relayer.connected).to.be.false;
+  });
 });
@@ -0,0 +1,218 @@
+import "mocha";
+import sinon from "sinon";
+import { KeyValueStorage } from "keyvaluestorage";
+import { JsonRpcRecord, JsonRpcStatusEvent, SessionTypes } from "@walletconnect/types";
+import { ERROR, generateRandomBytes32 } from "@walletconnect/utils";
+import { formatJsonRpcError, formatJsonRpcResult } from "@json-rpc-tools/utils";
+import { safeJsonParse } from "safe-json-utils";
+
+import {
+  expect,
+  setupClientsForTesting,
+  testApproveSession,
+  TEST_ETHEREUM_ACCOUNTS,
+  TEST_CLIENT_OPTIONS,
+  TEST_ETHEREUM_REQUEST,
+  TEST_TIMEOUT_DURATION,
+} from "./shared";
+import Client, {
+  CLIENT_BEAT_INTERVAL,
+  CLIENT_EVENTS,
+  HISTORY_DIRECTION,
+  HISTORY_EVENTS,
+  HISTORY_STATUS,
+  ONE_HOUR,
+} from "../src";
+
+const TEST_SIGN_REQUEST = {
+  method: "personal_sign",
+  params: ["0xdeadbeaf", TEST_ETHEREUM_ACCOUNTS[0]],
+};
+
+describe("History", function() {
+  this.timeout(TEST_TIMEOUT_DURATION);
+  let clock: sinon.SinonFakeTimers;
+  beforeEach(function() {
+    clock = sinon.useFakeTimers(Date.now());
+  });
+  afterEach(function() {
+    clock.restore();
+  });
+  it("prunes oldest records beyond max records per topic", async () => {
+    const { setup, clients } = await setupClientsForTesting({
+      shared: { options: { historyRetention: { maxRecordsPerTopic: 2 } } },
+    });
+    const topic = await testApproveSession(setup, clients);
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      const response = formatJsonRpcResult(requestEvent.request.id, TEST_ETHEREUM_ACCOUNTS);
+      await clients.b.respond({ topic, response });
+    });
+    const ids: number[] = [];
+    clients.a.session.history.on(HISTORY_EVENTS.created, (record: JsonRpcRecord) => {
+      ids.push(record.id);
+    });
+    for (let i = 0; i < 3; i++) {
+      clock.tick(1);
+      await clients.a.request({ topic, chainId, request: TEST_ETHEREUM_REQUEST });
+    }
+    expect(clients.a.session.history.size).to.eql(2);
+    expect(clients.a.session.history.keys).to.not.include(ids[0]);
+    expect(clients.b.session.history.size).to.eql(2);
+  });
+  it("keeps pending records when pruning beyond max records per topic", async () => {
+    const { setup, clients } = await setupClientsForTesting({
+      shared: { options: { historyRetention: { maxRecordsPerTopic: 1 } } },
+    });
+    const topic = await testApproveSession(setup, clients);
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      if (requestEvent.request.method === TEST_SIGN_REQUEST.method) return;
+      const response = formatJsonRpcResult(requestEvent.request.id, TEST_ETHEREUM_ACCOUNTS);
+      await clients.b.respond({ topic, response });
+    });
+    const created = new Promise<JsonRpcRecord>(resolve => {
+      clients.a.session.history.once(HISTORY_EVENTS.created, resolve);
+    });
+    clients.a
+      .request({ topic, chainId, request: TEST_SIGN_REQUEST })
+      .catch(() => clients.a.logger.warn(`TEST >> Pending request rejected`));
+    const { id } = await created;
+    for (let i = 0; i < 2; i++) {
+      clock.tick(1);
+      await clients.a.request({ topic, chainId, request: TEST_ETHEREUM_REQUEST });
+    }
+    expect(clients.a.session.history.keys).to.include(id);
+    expect(clients.a.session.history.size).to.eql(2);
+  });
+  it("prunes records older than max age", async () => {
+    const { setup, clients } = await setupClientsForTesting({
+      shared: { options: { historyRetention: { maxAge: ONE_HOUR } } },
+    });
+    const topic = await testApproveSession(setup, clients);
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      const response = formatJsonRpcResult(requestEvent.request.id, TEST_ETHEREUM_ACCOUNTS);
+      await clients.b.respond({ topic, response });
+    });
+    await clients.a.request({ topic, chainId, request: TEST_ETHEREUM_REQUEST });
+    expect(clients.a.session.history.size).to.eql(1);
+    clock.tick(ONE_HOUR * 1000 + CLIENT_BEAT_INTERVAL);
+    expect(clients.a.session.history.size).to.eql(0);
+  });
+  it("keeps pending records older than max age", async () => {
+    const { setup, clients } = await setupClientsForTesting({
+      shared: { options: { historyRetention: { maxAge: ONE_HOUR } } },
+    });
+    const topic = await testApproveSession(setup, clients);
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const created = new Promise<JsonRpcRecord>(resolve => {
+      clients.a.session.history.once(HISTORY_EVENTS.created, resolve);
+    });
+    // outlives max age so that the request is neither timed out nor expired by B
+    const timeout = ONE_HOUR * 1000 * 2;
+    clients.a
+      .request({ topic, chainId, request: TEST_SIGN_REQUEST, timeout })
+      .catch(() => clients.a.logger.warn(`TEST >> Pending request rejected`));
+    const { id } = await created;
+    clock.tick(ONE_HOUR * 1000 + CLIENT_BEAT_INTERVAL);
+    expect(clients.a.session.history.keys).to.include(id);
+  });
+  it("deletes records when session is deleted", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      const response = formatJsonRpcResult(requestEvent.request.id, TEST_ETHEREUM_ACCOUNTS);
+      await clients.b.respond({ topic, response });
+    });
+    await clients.a.request({ topic, chainId, request: TEST_ETHEREUM_REQUEST });
+    const deleted = new Promise<void>(resolve => {
+      clients.a.session.history.on(HISTORY_EVENTS.deleted, () => resolve());
+    });
+    await clients.a.disconnect({ topic, reason: ERROR.USER_DISCONNECTED.format() });
+    await deleted;
+    expect(clients.a.session.history.size).to.eql(0);
+  });
+  it("queries and exports records", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      const { id, method } = requestEvent.request;
+      const response =
+        method === TEST_SIGN_REQUEST.method
+          ? formatJsonRpcError(id, "User rejected")
+          : formatJsonRpcResult(id, TEST_ETHEREUM_ACCOUNTS);
+      await clients.b.respond({ topic, response });
+    });
+    const from = Date.now();
+    await clients.a.request({ topic, chainId, request: TEST_ETHEREUM_REQUEST });
+    clock.tick(1000);
+    const promise = clients.a.request({ topic, chainId, request: TEST_SIGN_REQUEST });
+    await expect(promise).to.eventually.be.rejectedWith("User rejected");
+    const { history } = clients.a.session;
+    expect((await history.query({ topic })).length).to.eql(2);
+    expect((await history.query({ chainId })).length).to.eql(2);
+    const signRecords = await history.query({ method: TEST_SIGN_REQUEST.method });
+    expect(signRecords.length).to.eql(1);
+    const rejected = await history.query({ status: "rejected" });
+    expect(rejected.map(record => record.id)).to.eql(signRecords.map(record => record.id));
+    expect((await history.query({ status: "resolved" })).length).to.eql(1);
+    expect((await history.query({ status: "pending" })).length).to.eql(0);
+    expect((await history.query({ from, to: from + 500 })).length).to.eql(1);
+    const lines = (await history.export()).split("\n");
+    expect(lines.length).to.eql(2);
+    expect(lines.map(line => safeJsonParse(line).id)).to.eql(history.keys);
+  });
+  it("tracks timestamps, direction and status transitions", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      clock.tick(1000);
+      const response = formatJsonRpcResult(requestEvent.request.id, TEST_ETHEREUM_ACCOUNTS);
+      await clients.b.respond({ topic, response });
+    });
+    const transitions: JsonRpcStatusEvent[] = [];
+    clients.a.session.history.on(HISTORY_EVENTS.status, (statusEvent: JsonRpcStatusEvent) => {
+      transitions.push(statusEvent);
+    });
+    await clients.a.request({ topic, chainId, request: TEST_ETHEREUM_REQUEST });
+    const [recordA] = await clients.a.session.history.query({ topic });
+    expect(recordA.direction).to.eql(HISTORY_DIRECTION.sent);
+    expect(recordA.status).to.eql(HISTORY_STATUS.resolved);
+    expect(recordA.respondedAt! - recordA.createdAt).to.be.at.least(1000);
+    expect(transitions.length).to.eql(1);
+    expect(transitions[0].previousStatus).to.eql(HISTORY_STATUS.pending);
+    expect(transitions[0].record.id).to.eql(recordA.id);
+    const recordB = await clients.b.session.history.get(topic, recordA.id);
+    expect(recordB.direction).to.eql(HISTORY_DIRECTION.received);
+    expect(recordB.status).to.eql(HISTORY_STATUS.resolved);
+  });
+  it("migrates persisted records without timestamps and status", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const storageKey = "wc@2:client//session:history";
+    const topic = generateRandomBytes32();
+    await storage.setItem(storageKey, [
+      {
+        id: 1,
+        topic,
+        request: TEST_ETHEREUM_REQUEST,
+        response: { result: TEST_ETHEREUM_ACCOUNTS },
+      },
+      { id: 2, topic, request: TEST_ETHEREUM_REQUEST },
+    ]);
+    const client = await Client.init({ ...TEST_CLIENT_OPTIONS, storage });
+    const resolved = await client.session.history.get(topic, 1);
+    expect(resolved.status).to.eql(HISTORY_STATUS.resolved);
+    expect(resolved.createdAt).to.eql(Date.now());
+    const pending = await client.session.history.get(topic, 2);
+    expect(pending.status).to.eql(HISTORY_STATUS.pending);
+    const persisted = await storage.getItem<JsonRpcRecord[]>(storageKey);
+    expect(persisted?.map(record => record.status)).to.eql([
+      HISTORY_STATUS.resolved,
+      HISTORY_STATUS.pending,
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import "mocha";
+import { unlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { ChildProcessKeyProvider } from "../src/providers/child-process";
+
+import { expect, setupClientsForTesting, testPairingWithoutSession } from "./shared";
+
+const TEST_KEY_PROVIDER_OPTIONS = { execArgv: ["-r", "ts-node/register"] };
+
+describe("KeyProvider", function() {
+  let provider: ChildProcessKeyProvider;
+  beforeEach(async () => {
+    provider = new ChildProcessKeyProvider(TEST_KEY_PROVIDER_OPTIONS);
+    await provider.init();
+  });
+  afterEach(async () => {
+    await provider.close();
+  });
+  it("derives matching shared keys without exposing private keys", async () => {
+    const publicKeyA = await provider.generateKeyPair();
+    const publicKeyB = await provider.generateKeyPair();
+    const sharedKeyA = await provider.deriveSharedKey(publicKeyA, publicKeyB);
+    const sharedKeyB = await provider.deriveSharedKey(publicKeyB, publicKeyA);
+    expect(sharedKeyA).to.eql(sharedKeyB);
+  });
+  it("rejects unknown public keys", async () => {
+    const publicKey = await provider.generateKeyPair();
+    let error: Error | undefined;
+    try {
+      await provider.deriveSharedKey(publicKey.replace(/^../, "00"), publicKey);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.not.be.undefined;
+  });
+  it("restores private keys from keystore after restart", async () => {
+    const keystore = join(tmpdir(), `wc-keystore-${Date.now()}.json`);
+    const before = new ChildProcessKeyProvider({ ...TEST_KEY_PROVIDER_OPTIONS, keystore });
+    await before.init();
+    const publicKeyA = await before.generateKeyPair();
+    const publicKeyB = await before.generateKeyPair();
+    const sharedKey = await before.deriveSharedKey(publicKeyA, publicKeyB);
+    await before.close();
+    const after = new ChildProcessKeyProvider({ ...TEST_KEY_PROVIDER_OPTIONS, keystore });
+    await after.init();
+    expect(await after.deriveSharedKey(publicKeyA, publicKeyB)).to.eql(sharedKey);
+    await after.close();
+    unlinkSync(keystore);
+  });
+  it("A pairs with B using an external key provider", async () => {
+    const { clients } = await setupClientsForTesting({
+      setup: { a: { options: { keyProvider: provider } } },
+    });
+    const topic = await testPairingWithoutSession(clients);
+    expect(await clients.a.crypto.hasKeys(topic)).to.be.true;
+    const pairing = await clients.a.pairing.settled.get(topic);
+    expect(await clients.a.crypto.keychain.has(pairing.self.publicKey)).to.be.false;
+  });
+  it("closes the key provider when the client is destroyed", async () => {
+    const { clients } = await setupClientsForTesting({
+      setup: { a: { options: { keyProvider: provider } } },
+    });
+    await clients.a.destroy();
+    let error: Error | undefined;
+    try {
+      await provider.generateKeyPair();
+    } catch (e) {
+      error = e;
+    }
+    expect(error?.message).to.eql("Key provider process is not running");
+  });
+});
@@ -1,17 +1,25 @@
 import "mocha";
 import sinon from "sinon";
 import { KeyValueStorage } from "keyvaluestorage";
-import { PairingTypes } from "@walletconnect/types";
+import { PairingTypes, Reason } from "@walletconnect/types";
+import { ERROR, formatUri, generateRandomBytes32, parseUri } from "@walletconnect/utils";
 
 import {
   expect,
   setupClientsForTesting,
   testPairingWithoutSession,
+  TEST_APP_METADATA_A,
   TEST_CLIENT_DATABASE,
   TEST_PAIRING_TTL,
   TEST_TIMEOUT_DURATION,
 } from "./shared";
-import { CLIENT_EVENTS } from "../src";
+import Client, {
+  CLIENT_BEAT_INTERVAL,
+  CLIENT_EVENTS,
+  FIVE_MINUTES,
+  PAIRING_DEFAULT_TTL,
+  RELAYER_DEFAULT_PROTOCOL,
+} from "../src";
 
 describe("Pairing", function() {
   this.timeout(TEST_TIMEOUT_DURATION);
@@ -34,6 +42,14 @@ describe("Pairing", function() {
     const topic = clients.b.pairing.topics[0];
     await clients.b.pairing.ping(topic, TEST_TIMEOUT_DURATION);
   });
+  it("A and B negotiate the pairing cipher", async () => {
+    const { clients } = await setupClientsForTesting();
+    const topic = await testPairingWithoutSession(clients);
+    const pairingA = await clients.a.pairing.settled.get(topic);
+    const pairingB = await clients.b.pairing.settled.get(topic);
+    expect(pairingA.cipher).to.eql(clients.a.crypto.ciphers[0]);
+    expect(pairingB.cipher).to.eql(pairingA.cipher);
+  });
   it("clients ping each other after restart", async () => {
     const storage = new KeyValueStorage({ database: TEST_CLIENT_DATABASE });
     // setup
@@ -93,4 +109,164 @@ describe("Pairing", function() {
       }
     });
   });
+  it("B rejects a pairing uri with unsupported version", async () => {
+    const { clients } = await setupClientsForTesting();
+    const uri = formatUri({
+      protocol: clients.b.protocol,
+      version: 3,
+      topic: generateRandomBytes32(),
+      publicKey: generateRandomBytes32(),
+      controller: false,
+      relay: { protocol: RELAYER_DEFAULT_PROTOCOL },
+    });
+    const promise = clients.b.pair({ uri });
+    await expect(promise).to.eventually.be.rejectedWith(
+      ERROR.INVALID_URI_VERSION.format({ version: 3, supported: clients.b.version }).message,
+    );
+    expect(clients.b.pairing.pending.length).to.eql(0);
+  });
+  it("B receives trimmed proposer metadata when A embeds it in the uri", async () => {
+    const { setup, clients } = await setupClientsForTesting({
+      setup: { a: { options: { pairingUri: { expiry: true, metadata: true } } } },
+    });
+    const proposal = sinon.spy();
+    clients.b.on(CLIENT_EVENTS.pairing.proposal, proposal);
+    const [pairing] = await Promise.all([
+      new Promise<PairingTypes.Settled>(resolve => {
+        clients.b.on(CLIENT_EVENTS.pairing.created, (pairing: PairingTypes.Settled) =>
+          resolve(pairing),
+        );
+      }),
+      new Promise<void>(resolve => {
+        clients.a.on(CLIENT_EVENTS.pairing.proposal, async (proposal: PairingTypes.Proposal) => {
+          const uriParams = parseUri(proposal.signal.params.uri);
+          expect(uriParams.expiryTimestamp).to.eql(Date.now() + PAIRING_DEFAULT_TTL * 1000);
+          await clients.b.pair({ uri: proposal.signal.params.uri });
+          resolve();
+        });
+      }),
+      clients.a.pairing.create({
+        relay: { protocol: RELAYER_DEFAULT_PROTOCOL },
+        metadata: setup.a.options.metadata,
+      }),
+    ]);
+    const { name, url, icons } = TEST_APP_METADATA_A;
+    expect(pairing.peer.metadata).to.eql({ name, description: "", url, icons: icons.slice(0, 1) });
+    expect(proposal.called).to.be.false;
+  });
+  it("A omits expiry and metadata from pairing uri by default", async () => {
+    const { clients } = await setupClientsForTesting();
+    const pending = await new Promise<PairingTypes.Proposal>(resolve => {
+      clients.a.on(CLIENT_EVENTS.pairing.proposal, (proposal: PairingTypes.Proposal) =>
+        resolve(proposal),
+      );
+      clients.a.pairing.create({ relay: { protocol: RELAYER_DEFAULT_PROTOCOL } });
+    });
+    const uriParams = parseUri(pending.signal.params.uri);
+    expect(uriParams.expiryTimestamp).to.be.undefined;
+    expect(uriParams.metadata).to.be.undefined;
+  });
+  it("B rejects an expired pairing uri", async () => {
+    const { clients } = await setupClientsForTesting();
+    const uri = formatUri({
+      protocol: clients.b.protocol,
+      version: clients.b.version,
+      topic: generateRandomBytes32(),
+      publicKey: generateRandomBytes32(),
+      controller: false,
+      relay: { protocol: RELAYER_DEFAULT_PROTOCOL },
+      expiryTimestamp: Date.now(),
+    });
+    const promise = clients.b.pair({ uri });
+    await expect(promise).to.eventually.be.rejectedWith(
+      ERROR.EXPIRED.format({ context: "pairing proposal" }).message,
+    );
+  });
+  it("lists and renames pairings", async () => {
+    const { clients } = await setupClientsForTesting();
+    const topic = await testPairingWithoutSession(clients);
+    expect(clients.a.pairings.list().map(pairing => pairing.topic)).to.eql([topic]);
+    const updated = new Promise<void>(resolve => {
+      clients.a.on(CLIENT_EVENTS.pairing.updated, (pairing: PairingTypes.Settled) => {
+        if (pairing.label === "Ledger Live") resolve();
+      });
+    });
+    await clients.a.pairings.rename(topic, "Ledger Live");
+    await updated;
+    const [pairing] = clients.a.pairings.list();
+    expect(pairing.label).to.eql("Ledger Live");
+  });
+  it("deletes a pairing and notifies the peer", async () => {
+    const { clients } = await setupClientsForTesting();
+    const topic = await testPairingWithoutSession(clients);
+    const deleted = new Promise<Reason>(resolve => {
+      clients.b.on(CLIENT_EVENTS.pairing.deleted, (_: PairingTypes.Settled, reason: Reason) =>
+        resolve(reason),
+      );
+    });
+    await clients.a.pairings.delete(topic);
+    expect(await deleted).to.eql(ERROR.USER_DISCONNECTED.format());
+    expect(clients.a.pairings.list().length).to.eql(0);
+  });
+  it("prunes pairings with unreachable peers", async () => {
+    const { clients } = await setupClientsForTesting({
+      setup: { a: { options: { pairingPrune: { interval: FIVE_MINUTES, maxFailedPings: 1 } } } },
+    });
+    const topic = await testPairingWithoutSession(clients);
+    sinon.stub(clients.a.pairing, "ping").rejects(new Error("timeout"));
+    const deleted = new Promise<Reason>(resolve => {
+      clients.a.on(CLIENT_EVENTS.pairing.deleted, (_: PairingTypes.Settled, reason: Reason) =>
+        resolve(reason),
+      );
+    });
+    clock.tick(FIVE_MINUTES * 1000 + CLIENT_BEAT_INTERVAL);
+    const reason = await deleted;
+    expect(reason).to.eql(ERROR.PEER_UNREACHABLE.format({ context: "pairing", attempts: 1 }));
+    expect(clients.a.pairings.list().length).to.eql(0);
+  });
+  it("prunes pairings again after a failed round", async () => {
+    const { clients } = await setupClientsForTesting({
+      setup: { a: { options: { pairingPrune: { interval: FIVE_MINUTES, maxFailedPings: 1 } } } },
+    });
+    await testPairingWithoutSession(clients);
+    sinon.stub(clients.a.pairing, "ping").rejects(new Error("timeout"));
+    const del = sinon.stub(clients.a.pairing, "delete");
+    const failed = new Promise<void>(resolve => {
+      del.onFirstCall().callsFake(async () => {
+        resolve();
+        throw new Error("failed");
+      });
+    });
+    del.callThrough();
+    clock.tick(FIVE_MINUTES * 1000 + CLIENT_BEAT_INTERVAL);
+    await failed;
+    expect(clients.a.pairings.list().length).to.eql(1);
+    const deleted = new Promise<void>(resolve => {
+      clients.a.on(CLIENT_EVENTS.pairing.deleted, () => resolve());
+    });
+    clock.tick(FIVE_MINUTES * 1000 + CLIENT_BEAT_INTERVAL);
+    await deleted;
+    expect(clients.a.pairings.list().length).to.eql(0);
+  });
+  it("keeps failed pings across restarts when pruning pairings", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const pairingPrune = { interval: FIVE_MINUTES, maxFailedPings: 2 };
+    const { setup, clients } = await setupClientsForTesting({
+      setup: { a: { options: { storage, pairingPrune } } },
+    });
+    const topic = await testPairingWithoutSession(clients);
+    sinon.stub(clients.a.pairing, "ping").rejects(new Error("timeout"));
+    await expect(clients.a.pairings.ping(topic)).to.be.rejected;
+    await clients.a.destroy();
+    const restored = await Client.init(setup.a.options);
+    sinon.stub(restored.pairing, "ping").rejects(new Error("timeout"));
+    const deleted = new Promise<Reason>(resolve => {
+      restored.on(CLIENT_EVENTS.pairing.deleted, (_: PairingTypes.Settled, reason: Reason) =>
+        resolve(reason),
+      );
+    });
+    clock.tick(FIVE_MINUTES * 1000 + CLIENT_BEAT_INTERVAL);
+    const reason = await deleted;
+    expect(reason).to.eql(ERROR.PEER_UNREACHABLE.format({ context: "pairing", attempts: 2 }));
+  });
 });
@@ -1,11 +1,19 @@
 import "mocha";
+import sinon from "sinon";
+import { RelayerTypes } from "@walletconnect/types";
+import { generateRandomBytes32 } from "@walletconnect/utils";
+import { formatJsonRpcRequest } from "@json-rpc-tools/utils";
+import { utf8ToHex } from "enc-utils";
 
 import {
   expect,
   testApproveSession,
   setupClientsForTesting,
   TEST_TIMEOUT_DURATION,
+  TEST_RELAY_URL,
+  TEST_UNREACHABLE_RELAY_URL,
 } from "./shared";
+import { RELAYER_EVENTS } from "../src";
 
 describe("Relayer", function() {
   this.timeout(TEST_TIMEOUT_DURATION);
@@ -35,4 +43,139 @@ describe("Relayer", function() {
     // ping
     await clients.a.session.ping(topic, TEST_TIMEOUT_DURATION);
   });
+  it("A queues payload while disconnected and publishes after reconnect", async () => {
+    // setup
+    const { setup, clients } = await setupClientsForTesting();
+    // connect
+    const topic = await testApproveSession(setup, clients);
+    // disconnect
+    await clients.a.relayer.provider.connection.close();
+    expect(clients.a.relayer.connected).to.be.false;
+    // ping
+    await Promise.all([
+      new Promise<void>(resolve => {
+        clients.a.relayer.once(RELAYER_EVENTS.queued, () => resolve());
+      }),
+      new Promise<void>(resolve => {
+        clients.a.relayer.once(RELAYER_EVENTS.published, () => resolve());
+      }),
+      clients.a.session.ping(topic, TEST_TIMEOUT_DURATION),
+    ]);
+    expect(clients.a.relayer.queue.size).to.eql(0);
+  });
+  it("A queues payloads with the same id on different topics", async () => {
+    // setup
+    const { clients } = await setupClientsForTesting();
+    // disconnect
+    const connected = sinon.stub(clients.a.relayer, "connected").get(() => false);
+    // publish
+    const request = formatJsonRpcRequest("test_method", []);
+    const topics = [generateRandomBytes32(), generateRandomBytes32()];
+    for (const topic of topics) {
+      await clients.a.relayer.publish(topic, request);
+    }
+    expect(clients.a.relayer.queue.size).to.eql(2);
+    expect(Array.from(clients.a.relayer.queue.values()).map(queued => queued.topic)).to.eql(topics);
+    connected.restore();
+  });
+  it("A retries a queued payload that fails to publish", async () => {
+    // setup
+    const { setup, clients } = await setupClientsForTesting();
+    // connect
+    const topic = await testApproveSession(setup, clients);
+    // fail first publish
+    const { provider } = clients.a.relayer;
+    const request = provider.request.bind(provider);
+    let failures = 0;
+    sinon.stub(provider, "request").callsFake(async (args: any) => {
+      if (args.method.endsWith("_publish") && !failures++) throw new Error("Publish failed");
+      return request(args);
+    });
+    // disconnect
+    await provider.connection.close();
+    // ping
+    await Promise.all([
+      new Promise<void>(resolve => {
+        clients.a.relayer.once(RELAYER_EVENTS.published, () => resolve());
+      }),
+      clients.a.session.ping(topic, TEST_TIMEOUT_DURATION),
+    ]);
+    expect(failures).to.be.above(1);
+    expect(clients.a.relayer.queue.size).to.eql(0);
+  });
+  it("A emits reconnecting event after socket closes", async () => {
+    // setup
+    const { clients } = await setupClientsForTesting();
+    // disconnect
+    await Promise.all([
+      new Promise<void>((resolve, reject) => {
+        clients.a.relayer.once(
+          RELAYER_EVENTS.reconnecting,
+          (event: RelayerTypes.ReconnectEvent) => {
+            try {
+              expect(event.attempt).to.eql(1);
+              resolve();
+            } catch (e) {
+              reject(e);
+            }
+          },
+        );
+      }),
+      clients.a.relayer.provider.connection.close(),
+    ]);
+  });
+  it("A fails over to next relay when first is unreachable", async () => {
+    // setup
+    const { setup, clients } = await setupClientsForTesting({
+      setup: { a: { options: { relayProvider: [TEST_UNREACHABLE_RELAY_URL, TEST_RELAY_URL] } } },
+    });
+    expect(clients.a.relayer.connected).to.be.true;
+    // connect
+    const topic = await testApproveSession(setup, clients);
+    // ping
+    await clients.a.session.ping(topic, TEST_TIMEOUT_DURATION);
+  });
+  it("B ignores duplicate relay messages", async () => {
+    // setup
+    const { clients } = await setupClientsForTesting();
+    // subscribe
+    const topic = generateRandomBytes32();
+    let received = 0;
+    const id = await clients.b.relayer.subscribe(topic, () => received++);
+    // duplicate
+    const message = utf8ToHex(JSON.stringify(formatJsonRpcRequest("test_method", [])));
+    clients.b.relayer.events.emit(id, { message });
+    clients.b.relayer.events.emit(id, { message });
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    expect(received).to.eql(1);
+  });
+  it("B handles a redelivered relay message that previously failed", async () => {
+    // setup
+    const { clients } = await setupClientsForTesting();
+    // subscribe
+    const topic = generateRandomBytes32();
+    let received = 0;
+    const id = await clients.b.relayer.subscribe(topic, () => {
+      if (!received++) throw new Error("Handler failed");
+    });
+    // redeliver
+    const message = utf8ToHex(JSON.stringify(formatJsonRpcRequest("test_method", [])));
+    clients.b.relayer.events.emit(id, { message });
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    clients.b.relayer.events.emit(id, { message });
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    expect(received).to.eql(2);
+  });
+  it("B batch subscribes and unsubscribes multiple topics", async () => {
+    // setup
+    const { clients } = await setupClientsForTesting();
+    // subscribe
+    const topics = [generateRandomBytes32(), generateRandomBytes32()];
+    const ids = await clients.b.relayer.batchSubscribe(topics, () => {
+      // ignore
+    });
+    expect(ids.length).to.eql(topics.length);
+    // unsubscribe
+    await clients.b.relayer.batchUnsubscribe(ids);
+  });
 });
@@ -1,7 +1,12 @@
 import "mocha";
 import sinon from "sinon";
-import { generateRandomBytes32 } from "@walletconnect/utils";
-import { formatJsonRpcError, formatJsonRpcResult } from "@json-rpc-tools/utils";
+import { JsonRpcRecord, SessionTypes } from "@walletconnect/types";
+import { ERROR, generateRandomBytes32 } from "@walletconnect/utils";
+import {
+  formatJsonRpcError,
+  formatJsonRpcRequest,
+  formatJsonRpcResult,
+} from "@json-rpc-tools/utils";
 
 import {
   expect,
@@ -13,6 +18,13 @@ import {
   TEST_RANDOM_REQUEST,
   TEST_TIMEOUT_DURATION,
 } from "./shared";
+import {
+  CLIENT_BEAT_INTERVAL,
+  CLIENT_EVENTS,
+  HISTORY_EVENTS,
+  SESSION_EVENTS,
+  SESSION_JSONRPC,
+} from "../src";
 
 describe("Request", function() {
   this.timeout(TEST_TIMEOUT_DURATION + 100);
@@ -57,6 +69,271 @@ describe("Request", function() {
       `Unauthorized JSON-RPC Method Requested: ${request.method}`,
     );
   });
+  it("A requests method with registered validators and B responds result", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    clients.a.register({
+      [TEST_ETHEREUM_REQUEST.method]: {
+        params: (params: any) => typeof params === "undefined",
+        result: (result: any) => Array.isArray(result),
+      },
+    });
+    const request = TEST_ETHEREUM_REQUEST;
+    const response = formatJsonRpcResult(1, TEST_ETHEREUM_ACCOUNTS);
+    await testJsonRpcRequest(setup, clients, topic, request, response);
+  });
+  it("A requests method with invalid params and error is thrown before publishing", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    clients.a.register({
+      [TEST_ETHEREUM_REQUEST.method]: { params: (params: any) => Array.isArray(params) },
+    });
+    const publish = sinon.spy(clients.a.relayer, "publish");
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const promise = clients.a.request({ topic, chainId, request, timeout: TEST_TIMEOUT_DURATION });
+    await expect(promise).to.eventually.be.rejectedWith(
+      `Missing or invalid ${request.method} params`,
+    );
+    expect(publish.called).to.be.false;
+    expect(clients.a.session.history.size).to.eql(0);
+  });
+  it("A requests method and B responds invalid result", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    clients.a.register({
+      [TEST_ETHEREUM_REQUEST.method]: { result: (result: any) => typeof result === "string" },
+    });
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      const response = formatJsonRpcResult(requestEvent.request.id, TEST_ETHEREUM_ACCOUNTS);
+      await clients.b.respond({ topic, response });
+    });
+    const promise = clients.a.request({ topic, chainId, request, timeout: TEST_TIMEOUT_DURATION });
+    await expect(promise).to.eventually.be.rejectedWith(
+      `Missing or invalid ${request.method} result`,
+    );
+  });
+  it("B receives request with invalid params and A receives error", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    clients.b.register({
+      [TEST_ETHEREUM_REQUEST.method]: { params: (params: any) => Array.isArray(params) },
+    });
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const promise = clients.a.request({ topic, chainId, request, timeout: TEST_TIMEOUT_DURATION });
+    await expect(promise).to.eventually.be.rejectedWith(
+      `Missing or invalid ${request.method} params`,
+    );
+  });
+  it("A aborts request and B receives cancelled event", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const controller = new AbortController();
+    const listeners = clients.a.session.events.listenerCount(SESSION_EVENTS.response);
+    clients.b.on(CLIENT_EVENTS.session.request, () => controller.abort());
+    const [requestEvent] = await Promise.all([
+      new Promise<SessionTypes.RequestEvent>(resolve => {
+        clients.b.on(CLIENT_EVENTS.session.cancelled, resolve);
+      }),
+      expect(
+        clients.a.request({
+          topic,
+          chainId,
+          request,
+          timeout: TEST_TIMEOUT_DURATION,
+          signal: controller.signal,
+        }),
+      ).to.eventually.be.rejectedWith(`JSON-RPC Request cancelled: ${request.method}`),
+    ]);
+    expect(requestEvent.topic).to.eql(topic);
+    expect(requestEvent.request.method).to.eql(request.method);
+    expect(clients.a.session.events.listenerCount(SESSION_EVENTS.response)).to.eql(listeners);
+    const { id } = requestEvent.request;
+    const recordA = await clients.a.session.history.get(topic, id);
+    expect((recordA.response as any).error.code).to.eql(ERROR.JSONRPC_REQUEST_CANCELLED.code);
+    const recordB = await clients.b.session.history.get(topic, id);
+    expect((recordB.response as any).error.code).to.eql(ERROR.JSONRPC_REQUEST_CANCELLED.code);
+    expect(clients.b.session.history.pending.length).to.eql(0);
+  });
+  it("A ignores cancel from B for a request A sent", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const cancelled = sinon.spy();
+    clients.a.on(CLIENT_EVENTS.session.cancelled, cancelled);
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      const { id } = requestEvent.request;
+      await clients.b.session.send(topic, formatJsonRpcRequest(SESSION_JSONRPC.cancel, { id }));
+      await clients.b.respond({ topic, response: formatJsonRpcResult(id, TEST_ETHEREUM_ACCOUNTS) });
+    });
+    const result = await clients.a.request({
+      topic,
+      chainId,
+      request,
+      timeout: TEST_TIMEOUT_DURATION,
+    });
+    expect(result).to.eql(TEST_ETHEREUM_ACCOUNTS);
+    expect(cancelled.called).to.be.false;
+  });
+  it("A requests with aborted signal and error is thrown before publishing", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const controller = new AbortController();
+    controller.abort();
+    const publish = sinon.spy(clients.a.relayer, "publish");
+    const promise = clients.a.request({ topic, chainId, request, signal: controller.signal });
+    await expect(promise).to.eventually.be.rejectedWith(
+      `JSON-RPC Request cancelled: ${request.method}`,
+    );
+    expect(publish.called).to.be.false;
+  });
+  it("A removes response listener after request times out", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const listeners = clients.a.session.events.listenerCount(SESSION_EVENTS.response);
+    const received = new Promise<void>(resolve => {
+      clients.b.on(CLIENT_EVENTS.session.request, () => resolve());
+    });
+    const promise = clients.a.request({ topic, chainId, request, timeout: TEST_TIMEOUT_DURATION });
+    await received;
+    expect(clients.a.session.events.listenerCount(SESSION_EVENTS.response)).to.eql(listeners + 1);
+    clock.tick(TEST_TIMEOUT_DURATION);
+    await expect(promise).to.eventually.be.rejected;
+    expect(clients.a.session.events.listenerCount(SESSION_EVENTS.response)).to.eql(listeners);
+  });
+  it("B expires pending request and responds with timeout error", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const received = new Promise<SessionTypes.RequestEvent>(resolve => {
+      clients.b.on(CLIENT_EVENTS.session.request, resolve);
+    });
+    const promise = clients.a.request({ topic, chainId, request, timeout: TEST_TIMEOUT_DURATION });
+    const requestEvent = await received;
+    expect(requestEvent.expiry).to.be.a("number");
+    expect(clients.b.session.history.pending.length).to.eql(1);
+    const expired = new Promise<JsonRpcRecord>(resolve => {
+      clients.b.session.history.on(HISTORY_EVENTS.expired, resolve);
+    });
+    clock.tick(TEST_TIMEOUT_DURATION + CLIENT_BEAT_INTERVAL);
+    await expect(promise).to.eventually.be.rejected;
+    const record = await expired;
+    expect(record.id).to.eql(requestEvent.request.id);
+    expect((record.response as any).error.code).to.eql(ERROR.JSONRPC_REQUEST_EXPIRED.code);
+    expect(clients.b.session.history.pending.length).to.eql(0);
+  });
+  it("A times out its own request without expiring it in history", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const request = TEST_ETHEREUM_REQUEST;
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const received = new Promise<SessionTypes.RequestEvent>(resolve => {
+      clients.b.on(CLIENT_EVENTS.session.request, resolve);
+    });
+    const expired = sinon.spy();
+    clients.a.session.history.on(HISTORY_EVENTS.expired, expired);
+    const responses = sinon.spy();
+    clients.b.on(CLIENT_EVENTS.session.response, responses);
+    const promise = clients.a.request({ topic, chainId, request, timeout: TEST_TIMEOUT_DURATION });
+    const requestEvent = await received;
+    expect((await clients.a.session.history.get(topic, requestEvent.request.id)).expiry).to.be
+      .undefined;
+    clock.tick(TEST_TIMEOUT_DURATION + CLIENT_BEAT_INTERVAL);
+    await expect(promise).to.eventually.be.rejected;
+    expect(expired.called).to.be.false;
+    expect(responses.called).to.be.false;
+  });
+  it("A requests batch and B responds results", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const requests = [
+      TEST_ETHEREUM_REQUEST,
+      { method: "personal_sign", params: ["0xdeadbeaf", TEST_ETHEREUM_ACCOUNTS[0]] },
+    ];
+    const results = [TEST_ETHEREUM_ACCOUNTS, "0xdeadbeaf"];
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    let received = 0;
+    const request = sinon.spy();
+    clients.b.on(CLIENT_EVENTS.session.request, request);
+    clients.b.on(
+      CLIENT_EVENTS.session.batchRequest,
+      async (requestEvent: SessionTypes.BatchRequestEvent) => {
+        received++;
+        expect(requestEvent.requests.map(request => request.method)).to.eql(
+          requests.map(request => request.method),
+        );
+        await Promise.all(
+          requestEvent.requests.map((request, index) =>
+            clients.b.respond({ topic, response: formatJsonRpcResult(request.id, results[index]) }),
+          ),
+        );
+      },
+    );
+    const responses = await clients.a.request({
+      topic,
+      chainId,
+      requests,
+      timeout: TEST_TIMEOUT_DURATION,
+    });
+    expect(responses.map(response => (response as any).result)).to.eql(results);
+    expect(received).to.eql(1);
+    expect(request.called).to.be.false;
+    expect(clients.a.session.history.size).to.eql(requests.length);
+    expect(clients.b.session.history.size).to.eql(requests.length);
+  });
+  it("A requests batch and B responds result and error per request", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const requests = [
+      TEST_ETHEREUM_REQUEST,
+      { method: "personal_sign", params: ["0xdeadbeaf", TEST_ETHEREUM_ACCOUNTS[0]] },
+    ];
+    const error = ERROR.NOT_APPROVED.format({ context: "personal_sign" });
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    clients.b.on(
+      CLIENT_EVENTS.session.batchRequest,
+      async (requestEvent: SessionTypes.BatchRequestEvent) => {
+        const [accounts, sign] = requestEvent.requests;
+        await clients.b.respond({
+          topic,
+          response: formatJsonRpcResult(accounts.id, TEST_ETHEREUM_ACCOUNTS),
+        });
+        await clients.b.respond({ topic, response: formatJsonRpcError(sign.id, error) });
+      },
+    );
+    const [accounts, sign] = await clients.a.request({
+      topic,
+      chainId,
+      requests,
+      timeout: TEST_TIMEOUT_DURATION,
+    });
+    expect((accounts as any).result).to.eql(TEST_ETHEREUM_ACCOUNTS);
+    expect((sign as any).error.message).to.eql(error.message);
+  });
+  it("A requests batch with unauthorized method and error is thrown", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const requests = [TEST_ETHEREUM_REQUEST, TEST_RANDOM_REQUEST];
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const publish = sinon.spy(clients.a.relayer, "publish");
+    const promise = clients.a.request({ topic, chainId, requests, timeout: TEST_TIMEOUT_DURATION });
+    await expect(promise).to.eventually.be.rejectedWith(
+      `Unauthorized JSON-RPC Method Requested: ${TEST_RANDOM_REQUEST.method}`,
+    );
+    expect(publish.called).to.be.false;
+    expect(clients.a.session.history.size).to.eql(0);
+  });
   it("A requests method and B fails to return response in time", async () => {
     const { setup, clients } = await setupClientsForTesting();
     const topic = await testApproveSession(setup, clients);
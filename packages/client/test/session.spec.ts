@@ -16,7 +16,13 @@ import {
   testJsonRpcRequest,
   TEST_SESSION_TTL,
 } from "./shared";
-import { CLIENT_EVENTS } from "../src";
+import {
+  CLIENT_BEAT_INTERVAL,
+  CLIENT_EVENTS,
+  ONE_DAY,
+  SESSION_DEFAULT_TTL,
+  THIRTY_SECONDS,
+} from "../src";
 import { ErrorResponse, formatJsonRpcResult } from "@json-rpc-tools/utils";
 
 describe("Session", function() {
@@ -252,6 +258,102 @@ describe("Session", function() {
     });
     await expect(promise).to.eventually.be.rejectedWith(`Unauthorized session upgrade request`);
   });
+  it("B rotates session keys and A follows to new topic", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const [sessionA] = await Promise.all([
+      new Promise<SessionTypes.Settled>(resolve => {
+        clients.a.on(
+          CLIENT_EVENTS.session.rotated,
+          (session: SessionTypes.Settled, previousTopic: string) => {
+            if (previousTopic !== topic) return;
+            resolve(session);
+          },
+        );
+      }),
+      clients.b.rotate({ topic }),
+    ]);
+    const sessionB = clients.b.session.values.find(session => session.topic === sessionA.topic);
+    expect(sessionB).to.not.be.undefined;
+    expect(sessionA.topic).to.not.eql(topic);
+    expect(clients.a.session.topics.includes(topic)).to.be.false;
+    await clients.a.session.ping(sessionA.topic, TEST_TIMEOUT_DURATION);
+    expect(await clients.a.crypto.hasKeys(topic)).to.be.false;
+    expect(await clients.b.crypto.hasKeys(topic)).to.be.false;
+  });
+  it("B answers request received before rotating session keys", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const [result] = await Promise.all([
+      clients.a.request({
+        topic,
+        chainId: setup.a.permissions.blockchain.chains[0],
+        request: { method: "eth_accounts" },
+        timeout: TEST_TIMEOUT_DURATION,
+      }),
+      new Promise<void>((resolve, reject) => {
+        clients.b.once(
+          CLIENT_EVENTS.session.request,
+          async (requestEvent: SessionTypes.RequestEvent) => {
+            try {
+              await clients.b.rotate({ topic });
+              await clients.b.respond({
+                topic,
+                response: formatJsonRpcResult(requestEvent.request.id, TEST_ETHEREUM_ACCOUNTS),
+              });
+              resolve();
+            } catch (e) {
+              reject(e);
+            }
+          },
+        );
+      }),
+    ]);
+    expect(result).to.eql(TEST_ETHEREUM_ACCOUNTS);
+  });
+  it("A rotates session keys and error is thrown", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const promise = clients.a.rotate({ topic });
+    await expect(promise).to.eventually.be.rejectedWith(`Unauthorized session rotate request`);
+  });
+  it("B extends session expiry and A receives event", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const before = await clients.a.session.get(topic);
+    // extended expiry is capped by the default ttl so it only grows as time elapses
+    const elapsed = CLIENT_BEAT_INTERVAL;
+    clock.tick(elapsed);
+    const ttl = TEST_SESSION_TTL / 1000;
+    await Promise.all([
+      new Promise<void>(resolve => {
+        clients.a.on(CLIENT_EVENTS.session.updated, (session: SessionTypes.Settled) => {
+          if (session.topic !== topic) return;
+          expect(session.expiry).to.be.gt(before.expiry);
+          resolve();
+        });
+      }),
+      clients.b.extend({ topic, ttl }),
+    ]);
+    const sessionA = await clients.a.session.get(topic);
+    const sessionB = await clients.b.session.get(topic);
+    expect(sessionA.expiry).to.eql(sessionB.expiry);
+    clock.tick(TEST_SESSION_TTL - elapsed / 2);
+    expect(clients.a.session.topics.includes(topic)).to.be.true;
+  });
+  it("B extends session beyond default ttl and error is thrown", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const promise = clients.b.extend({ topic, ttl: SESSION_DEFAULT_TTL * 2 });
+    await expect(promise).to.eventually.be.rejectedWith(`Invalid session extend request`);
+  });
+  it("A extends session expiry and error is thrown", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const ttl = (TEST_SESSION_TTL * 2) / 1000;
+    const promise = clients.a.extend({ topic, ttl });
+    await expect(promise).to.eventually.be.rejectedWith(`Unauthorized session extend request`);
+  });
   it("A fails to pings B after A deletes session", async () => {
     const { setup, clients } = await setupClientsForTesting();
     const topic = await testApproveSession(setup, clients);
@@ -324,4 +426,80 @@ describe("Session", function() {
       }
     });
   });
+  it("should emit expiring event before default period is elapsed", function() {
+    this.timeout(TEST_SESSION_TTL);
+    return new Promise<void>(async (resolve, reject) => {
+      try {
+        // setup
+        const { setup, clients } = await setupClientsForTesting();
+        // connect
+        const topic = await testApproveSession(setup, clients);
+        clients.a.on(
+          CLIENT_EVENTS.session.expiring,
+          (session: SessionTypes.Settled, threshold: number) => {
+            expect(session.topic).to.eql(topic);
+            expect(threshold).to.eql(ONE_DAY);
+            resolve();
+          },
+        );
+        clock.tick(TEST_SESSION_TTL - ONE_DAY * 1000 + CLIENT_BEAT_INTERVAL);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  });
+  it("A pings B and records when B was last seen", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const online = new Promise<SessionTypes.Settled>(resolve => {
+      clients.a.on(CLIENT_EVENTS.session.online, (session: SessionTypes.Settled) =>
+        resolve(session),
+      );
+    });
+    await clients.a.ping({ topic, timeout: TEST_TIMEOUT_DURATION });
+    expect((await online).topic).to.eql(topic);
+    const session = await clients.a.session.get(topic);
+    expect(session.lastSeen).to.eql(Date.now());
+  });
+  it("A pings B again and refreshes last seen without emitting session updated", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    const updated = sinon.spy();
+    clients.a.on(CLIENT_EVENTS.session.updated, updated);
+    await clients.a.ping({ topic, timeout: TEST_TIMEOUT_DURATION });
+    clock.tick(1000);
+    await clients.a.ping({ topic, timeout: TEST_TIMEOUT_DURATION });
+    expect(updated.called).to.be.false;
+    expect((await clients.a.session.get(topic)).lastSeen).to.eql(Date.now());
+  });
+  it("B pings A and A records when B was last seen", async () => {
+    const { setup, clients } = await setupClientsForTesting();
+    const topic = await testApproveSession(setup, clients);
+    await clients.b.ping({ topic, timeout: TEST_TIMEOUT_DURATION });
+    const session = await clients.a.session.get(topic);
+    expect(session.lastSeen).to.eql(Date.now());
+  });
+  it("heartbeat emits peer offline and online events", async () => {
+    const { setup, clients } = await setupClientsForTesting({
+      setup: { a: { options: { sessionHeartbeat: { interval: THIRTY_SECONDS } } } },
+    });
+    const topic = await testApproveSession(setup, clients);
+    const ping = sinon.stub(clients.a.session.engine, "ping").rejects(new Error("timeout"));
+    const offline = new Promise<SessionTypes.Settled>(resolve => {
+      clients.a.on(CLIENT_EVENTS.session.offline, (session: SessionTypes.Settled) =>
+        resolve(session),
+      );
+    });
+    clock.tick(CLIENT_BEAT_INTERVAL);
+    expect((await offline).topic).to.eql(topic);
+    expect((await clients.a.session.get(topic)).lastSeen).to.be.undefined;
+    ping.restore();
+    const online = new Promise<SessionTypes.Settled>(resolve => {
+      clients.a.on(CLIENT_EVENTS.session.online, (session: SessionTypes.Settled) =>
+        resolve(session),
+      );
+    });
+    clock.tick(THIRTY_SECONDS * 1000);
+    expect((await online).lastSeen).to.eql(Date.now());
+  });
 });
@@ -9,6 +9,8 @@ export const TEST_RELAY_URL = process.env.TEST_RELAY_URL
   ? process.env.TEST_RELAY_URL
   : "ws://localhost:5555";
 
+export const TEST_UNREACHABLE_RELAY_URL = "ws://localhost:5556";
+
 export const TEST_CLIENT_OPTIONS: ClientOptions = {
   logger: "fatal",
   relayProvider: TEST_RELAY_URL,
@@ -0,0 +1,151 @@
+import "mocha";
+import { KeyValueStorage } from "keyvaluestorage";
+import { JsonRpcRecord, SessionTypes, StorageTypes } from "@walletconnect/types";
+import { ERROR, generateRandomBytes32 } from "@walletconnect/utils";
+import { formatJsonRpcResult } from "@json-rpc-tools/utils";
+
+import Client, { CLIENT_EVENTS, STORAGE_EVENTS, SUBSCRIPTION_EVENTS } from "../src";
+
+import {
+  expect,
+  setupClientsForTesting,
+  testApproveSession,
+  TEST_CLIENT_OPTIONS,
+  TEST_ETHEREUM_ACCOUNTS,
+  TEST_ETHEREUM_REQUEST,
+  TEST_TIMEOUT_DURATION,
+} from "./shared";
+
+const TEST_HISTORY_STORAGE_KEY = "wc@2:client//session:history";
+const TEST_VERSION_STORAGE_KEY = "wc@2:client//storage:version";
+const TEST_KEYCHAIN_STORAGE_KEY = "wc@2:client//keychain";
+
+describe("Storage", function() {
+  this.timeout(TEST_TIMEOUT_DURATION);
+  it("runs registered migrations on initialize", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const topic = generateRandomBytes32();
+    await storage.setItem(TEST_HISTORY_STORAGE_KEY, [
+      { id: 1, topic, method: TEST_ETHEREUM_REQUEST.method },
+    ]);
+    const client = await Client.init({
+      ...TEST_CLIENT_OPTIONS,
+      storage,
+      storageMigrations: {
+        2: (key, value) =>
+          key === TEST_HISTORY_STORAGE_KEY
+            ? value.map(({ method, ...record }) => ({ ...record, request: { id: 1, method } }))
+            : value,
+      },
+    });
+    const record = await client.session.history.get(topic, 1);
+    expect(record.request.method).to.eql(TEST_ETHEREUM_REQUEST.method);
+    expect(await storage.getItem(TEST_VERSION_STORAGE_KEY)).to.eql(2);
+  });
+  it("quarantines records that fail to migrate", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const value = [{ id: 1, topic: generateRandomBytes32() }];
+    await storage.setItem(TEST_HISTORY_STORAGE_KEY, value);
+    const client = await Client.init({
+      ...TEST_CLIENT_OPTIONS,
+      storage,
+      storageMigrations: {
+        2: (key, value) => {
+          if (key === TEST_HISTORY_STORAGE_KEY) throw new Error("unreadable");
+          return value;
+        },
+      },
+    });
+    const quarantined = await client.storage.getQuarantined();
+    expect(quarantined.length).to.eql(1);
+    expect(quarantined[0].key).to.eql(TEST_HISTORY_STORAGE_KEY);
+    expect(quarantined[0].value).to.eql(value);
+    expect(client.session.history.size).to.eql(0);
+  });
+  it("quarantines invalid records on restore", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const topic = generateRandomBytes32();
+    const invalid = { id: "2", topic };
+    await storage.setItem(TEST_HISTORY_STORAGE_KEY, [
+      { id: 1, topic, request: TEST_ETHEREUM_REQUEST },
+      invalid,
+    ]);
+    const client = await Client.init({ ...TEST_CLIENT_OPTIONS, storage });
+    expect(client.session.history.keys).to.eql([1]);
+    const quarantined = await client.storage.getQuarantined();
+    expect(quarantined.map(({ value }) => value)).to.eql([invalid]);
+    const persisted = await storage.getItem<JsonRpcRecord[]>(TEST_HISTORY_STORAGE_KEY);
+    expect(persisted?.map(record => record.id)).to.eql([1]);
+  });
+  it("fails to initialize with a newer storage version", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    await storage.setItem(TEST_VERSION_STORAGE_KEY, 3);
+    const promise = Client.init({ ...TEST_CLIENT_OPTIONS, storage });
+    await expect(promise).to.eventually.be.rejectedWith(
+      ERROR.INVALID_STORAGE_VERSION.format({ version: 3, supported: 1 }).message,
+    );
+  });
+  it("merges keychain writes from clients sharing storage", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const first = await Client.init({ ...TEST_CLIENT_OPTIONS, storage });
+    const second = await Client.init({ ...TEST_CLIENT_OPTIONS, storage });
+    const changed = new Promise<void>(resolve => {
+      second.storage.on(STORAGE_EVENTS.changed, (change: StorageTypes.Change) => {
+        if (change.key === TEST_KEYCHAIN_STORAGE_KEY) resolve();
+      });
+    });
+    const publicKeyA = await first.crypto.generateKeyPair();
+    await changed;
+    expect(await second.crypto.hasKeys(publicKeyA)).to.be.true;
+    const publicKeyB = await second.crypto.generateKeyPair();
+    const third = await Client.init({ ...TEST_CLIENT_OPTIONS, storage });
+    expect(await third.crypto.hasKeys(publicKeyA)).to.be.true;
+    expect(await third.crypto.hasKeys(publicKeyB)).to.be.true;
+  });
+  it("shares a session between clients sharing storage", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const { setup, clients } = await setupClientsForTesting({
+      setup: { a: { options: { storage } } },
+    });
+    const tab = await Client.init(setup.a.options);
+    const synced = new Promise<void>(resolve => {
+      tab.session.settled.on(SUBSCRIPTION_EVENTS.sync, () => resolve());
+    });
+    const topic = await testApproveSession(setup, clients);
+    await synced;
+    expect(tab.session.topics).to.include(topic);
+    clients.b.on(CLIENT_EVENTS.session.request, async (requestEvent: SessionTypes.RequestEvent) => {
+      const response = formatJsonRpcResult(requestEvent.request.id, TEST_ETHEREUM_ACCOUNTS);
+      await clients.b.respond({ topic, response });
+    });
+    const chainId = setup.a.permissions.blockchain.chains[0];
+    const result = await tab.request({ topic, chainId, request: TEST_ETHEREUM_REQUEST });
+    expect(result).to.eql(TEST_ETHEREUM_ACCOUNTS);
+    const persisted = await storage.getItem<JsonRpcRecord[]>(
+      `wc@2:${setup.a.options.name}//session:history`,
+    );
+    expect(persisted?.length).to.eql(1);
+  });
+  it("emits sessions created and deleted by another client sharing storage", async () => {
+    const storage = new KeyValueStorage({ database: ":memory:" });
+    const { setup, clients } = await setupClientsForTesting({
+      setup: { a: { options: { storage } } },
+    });
+    const tab = await Client.init(setup.a.options);
+    const created = new Promise<string>(resolve => {
+      tab.on(CLIENT_EVENTS.session.created, (session: SessionTypes.Settled) =>
+        resolve(session.topic),
+      );
+    });
+    const topic = await testApproveSession(setup, clients);
+    expect(await created).to.eql(topic);
+    const deleted = new Promise<string>(resolve => {
+      tab.on(CLIENT_EVENTS.session.deleted, (session: SessionTypes.Settled) =>
+        resolve(session.topic),
+      );
+    });
+    await clients.a.disconnect({ topic, reason: ERROR.USER_DISCONNECTED.format() });
+    expect(await deleted).to.eql(topic);
+    expect(tab.session.topics).to.not.include(topic);
+  });
+});
@@ -3,8 +3,14 @@ import { IJsonRpcConnection } from "@json-rpc-tools/types";
 import { formatJsonRpcError, formatJsonRpcResult } from "@json-rpc-tools/utils";
 
 import { Client, CLIENT_EVENTS } from "@walletconnect/client";
-import { ERROR } from "@walletconnect/utils";
-import { ClientOptions, IClient, PairingTypes, SessionTypes } from "@walletconnect/types";
+import { ERROR, formatDeepLinkSignal, validateLinkTemplate } from "@walletconnect/utils";
+import {
+  ClientOptions,
+  IClient,
+  PairingTypes,
+  SessionTypes,
+  SignalTypes,
+} from "@walletconnect/types";
 
 export function isClient(opts?: SignerConnectionClientOpts): opts is IClient {
   return typeof opts !== "undefined" && typeof (opts as IClient).context !== "undefined";
@@ -24,6 +30,8 @@ export interface SignerConnectionOpts {
   chains?: string[];
   methods?: string[];
   client?: SignerConnectionClientOpts;
+  // wallet link templates, defaults to the templates registered in @walletconnect/utils
+  links?: SignalTypes.LinkTemplate[];
 }
 
 export class SignerConnection extends IJsonRpcConnection {
@@ -31,6 +39,7 @@ export class SignerConnection extends IJsonRpcConnection {
 
   public chains: string[];
   public methods: string[];
+  public links: SignalTypes.LinkTemplate[] | undefined;
 
   private pending = false;
   private session: SessionTypes.Settled | undefined;
@@ -43,6 +52,8 @@ export class SignerConnection extends IJsonRpcConnection {
 
     this.chains = opts?.chains || [];
     this.methods = opts?.methods || [];
+    this.links = opts?.links;
+    this.links?.forEach(template => validateLinkTemplate(template));
     this.register(opts?.client);
   }
 
@@ -165,6 +176,14 @@ export class SignerConnection extends IJsonRpcConnection {
       this.session = session;
       this.events.emit(SIGNER_EVENTS.updated, session);
     });
+    this.client.on(
+      CLIENT_EVENTS.session.rotated,
+      (session: SessionTypes.Settled, previousTopic: string) => {
+        if (this.session?.topic !== previousTopic) return;
+        this.session = session;
+        this.events.emit(SIGNER_EVENTS.updated, session);
+      },
+    );
     this.client.on(
       CLIENT_EVENTS.session.notification,
       (notification: SessionTypes.NotificationEvent) => {
@@ -182,8 +201,8 @@ export class SignerConnection extends IJsonRpcConnection {
       this.events.emit(SIGNER_EVENTS.deleted, session);
     });
     this.client.on(CLIENT_EVENTS.pairing.proposal, async (proposal: PairingTypes.Proposal) => {
-      const uri = proposal.signal.params.uri;
-      this.events.emit(SIGNER_EVENTS.uri, { uri });
+      const signal = formatDeepLinkSignal(proposal.signal.params.uri, this.links);
+      this.events.emit(SIGNER_EVENTS.uri, signal.params);
     });
   }
 }
@@ -25,6 +25,13 @@ const TEST_APP_METADATA = {
   icons: ["https://walletconnect.org/walletconnect-logo.png"],
 };
 
+const TEST_LINK_TEMPLATE = {
+  id: "test",
+  name: "Test Wallet",
+  native: "testwallet://wc?uri={uri}",
+  universal: "https://walletconnect.org/wc?uri={uri}",
+};
+
 const TEST_WALLET_METADATA = {
   name: "Test Wallet",
   description: "Test Wallet for WalletConnect",
@@ -40,6 +47,7 @@ async function setup() {
       relayProvider: TEST_RELAY_URL,
       metadata: TEST_APP_METADATA,
     },
+    links: [TEST_LINK_TEMPLATE],
   });
   const provider = new JsonRpcProvider(connection);
   const clientB = await Client.init({
@@ -53,7 +61,10 @@ async function setup() {
 async function testConnect(provider: JsonRpcProvider, wallet: IClient) {
   let topic = "";
   // auto-pair
-  provider.connection.on(SIGNER_EVENTS.uri, async ({ uri }) => {
+  provider.connection.on(SIGNER_EVENTS.uri, async ({ uri, links }) => {
+    chai
+      .expect(links.map(link => link.native))
+      .to.eql([TEST_LINK_TEMPLATE.native.replace("{uri}", encodeURIComponent(uri))]);
     await wallet.pair({ uri });
   });
   // connect
@@ -100,4 +111,14 @@ describe("@walletconnect/signer-connection", () => {
     const result = await testRequest(provider, wallet, topic);
     chai.expect(result).to.eql(TEST_JSONRPC_RESULT);
   });
+  it("should reject link templates without uri placeholder", () => {
+    chai
+      .expect(
+        () =>
+          new SignerConnection({
+            links: [{ ...TEST_LINK_TEMPLATE, native: "testwallet://wc" }],
+          }),
+      )
+      .to.throw(`Invalid link template for wallet: ${TEST_LINK_TEMPLATE.id}`);
+  });
 });
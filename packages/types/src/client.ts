@@ -4,18 +4,31 @@ import { IJsonRpcProvider, JsonRpcResponse, IEvents } from "@json-rpc-tools/type
 
 import { IRelayer, RelayerTypes } from "./relayer";
 import { ISession, SessionTypes } from "./session";
-import { IPairing } from "./pairing";
-import { SignalTypes, AppMetadata, Reason } from "./misc";
-import { ICrypto, IKeyChain } from "./crypto";
-
-export interface ClientOptions {
+import { IPairing, IPairingManager, PairingTypes } from "./pairing";
+import { SignalTypes, AppMetadata, Reason, CloseParams } from "./misc";
+import { CryptoTypes, ICrypto, IKeyChain, IKeyProvider } from "./crypto";
+import { MethodTypes } from "./method";
+import { JsonRpcHistoryRetention } from "./history";
+import { IStorage, StorageTypes } from "./storage";
+
+export interface ClientOptions<M extends MethodTypes.Map = MethodTypes.Map> {
   name?: string;
   controller?: boolean;
   metadata?: AppMetadata;
   logger?: string | Logger;
   keychain?: IKeyChain;
+  keychainOptions?: CryptoTypes.KeyChainOptions;
+  keyProvider?: IKeyProvider;
   storage?: IKeyValueStorage;
-  relayProvider?: string | IJsonRpcProvider;
+  storageMigrations?: StorageTypes.Migrations;
+  relayProvider?: string | string[] | IJsonRpcProvider;
+  relayReconnect?: RelayerTypes.ReconnectOptions;
+  pairingUri?: Partial<PairingTypes.UriOptions>;
+  pairingPrune?: Partial<PairingTypes.PruneOptions>;
+  sessionHeartbeat?: Partial<SessionTypes.HeartbeatOptions>;
+  expiryWarnings?: number[];
+  historyRetention?: JsonRpcHistoryRetention;
+  methods?: MethodTypes.Validators<M>;
   storageOptions?: KeyValueStorageOptions;
 }
 
@@ -27,16 +40,24 @@ export abstract class IClient extends IEvents {
   public abstract crypto: ICrypto;
 
   public abstract relayer: IRelayer;
-  public abstract storage: IKeyValueStorage;
+  public abstract storage: IStorage;
 
   public abstract pairing: IPairing;
   public abstract session: ISession;
 
+  public abstract pairings: IPairingManager;
+
   public abstract context: string;
 
   public abstract readonly controller: boolean;
   public abstract metadata: AppMetadata | undefined;
 
+  public abstract expiryWarnings: number[];
+
+  public abstract historyRetention: JsonRpcHistoryRetention;
+
+  public abstract methods: MethodTypes.Validators;
+
   constructor(opts?: ClientOptions) {
     super();
   }
@@ -54,16 +75,30 @@ export abstract class IClient extends IEvents {
   public abstract upgrade(params: ClientTypes.UpgradeParams): Promise<void>;
   // for responder to update session state
   public abstract update(params: ClientTypes.UpdateParams): Promise<void>;
-
-  // for proposer to request JSON-RPC
-  public abstract request(params: ClientTypes.RequestParams): Promise<any>;
+  // for controller to rotate session keys and topic
+  public abstract rotate(params: ClientTypes.RotateParams): Promise<void>;
+  // for controller to extend session expiry
+  public abstract extend(params: ClientTypes.ExtendParams): Promise<void>;
+
+  // for either to register runtime validators for JSON-RPC methods
+  public abstract register(methods: MethodTypes.Validators): void;
+
+  // for proposer to request JSON-RPC, either a single request or a batch resolving a response each
+  public abstract request(
+    params: ClientTypes.RequestParams | ClientTypes.BatchRequestParams,
+  ): Promise<any>;
   // for responder to respond JSON-RPC
   public abstract respond(params: ClientTypes.RespondParams): Promise<void>;
 
   // for either to send notifications
   public abstract notify(params: ClientTypes.NotifyParams): Promise<void>;
+  // for either to check the peer of a session is reachable
+  public abstract ping(params: ClientTypes.PingParams): Promise<void>;
   // for either to disconnect a session
   public abstract disconnect(params: ClientTypes.DisconnectParams): Promise<void>;
+
+  // for either to release timers, sockets and listeners
+  public abstract destroy(params?: ClientTypes.DestroyParams): Promise<void>;
 }
 
 export declare namespace ClientTypes {
@@ -96,14 +131,45 @@ export declare namespace ClientTypes {
 
   export type UpdateParams = SessionTypes.UpdateParams;
 
-  export type RequestParams = SessionTypes.RequestParams;
+  export type RotateParams = SessionTypes.RotateParams;
+
+  export type ExtendParams = SessionTypes.ExtendParams;
+
+  export interface RequestParams<
+    M extends MethodTypes.Map = MethodTypes.Map,
+    K extends MethodTypes.Name<M> = MethodTypes.Name<M>
+  > extends Omit<SessionTypes.RequestParams, "request"> {
+    request: MethodTypes.Request<M, K>;
+  }
+
+  export interface RequestEvent<M extends MethodTypes.Map = MethodTypes.Map>
+    extends Omit<SessionTypes.RequestEvent, "request"> {
+    request: MethodTypes.JsonRpc<M>;
+  }
+
+  export interface BatchRequestParams<M extends MethodTypes.Map = MethodTypes.Map>
+    extends Omit<SessionTypes.BatchRequestParams, "requests"> {
+    requests: MethodTypes.Request<M>[];
+  }
+
+  export interface BatchRequestEvent<M extends MethodTypes.Map = MethodTypes.Map>
+    extends Omit<SessionTypes.BatchRequestEvent, "requests"> {
+    requests: MethodTypes.JsonRpc<M>[];
+  }
 
   export interface RespondParams {
     topic: string;
     response: JsonRpcResponse;
   }
 
+  export interface PingParams {
+    topic: string;
+    timeout?: number;
+  }
+
   export type NotifyParams = SessionTypes.NotifyParams;
 
   export type DisconnectParams = SessionTypes.DeleteParams;
+
+  export type DestroyParams = CloseParams;
 }
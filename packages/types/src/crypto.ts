@@ -14,6 +14,7 @@ export declare namespace CryptoTypes {
     sharedKey: string;
     publicKey: string;
     iv?: string;
+    cipher?: string;
   }
 
   export interface EncryptParams extends EncryptionKeys {
@@ -24,6 +25,28 @@ export declare namespace CryptoTypes {
     sharedKey: string;
     encrypted: string;
   }
+
+  export interface EnvelopeEncryptParams extends EncryptParams {
+    cipher: string;
+  }
+
+  export interface KeyChainOptions {
+    passphrase?: string;
+    wrappingKey?: string;
+    iterations?: number;
+  }
+
+  export interface EncryptedKeyChain {
+    salt: string;
+    iterations: number;
+    encrypted: string;
+  }
+
+  export interface Envelope {
+    type: number;
+    cipher: string;
+    payload: string;
+  }
 }
 
 export abstract class IKeyChain {
@@ -33,23 +56,49 @@ export abstract class IKeyChain {
   public abstract set(tag: string, key: string, opts?: any): Promise<void>;
   public abstract get(tag: string, opts?: any): Promise<string>;
   public abstract del(tag: string, opts?: any): Promise<void>;
+
+  public abstract rotate(opts: CryptoTypes.KeyChainOptions): Promise<void>;
+  public abstract disableEncryption(): Promise<void>;
+}
+
+export abstract class IKeyProvider {
+  public abstract init(): Promise<void>;
+
+  public abstract generateKeyPair(): Promise<string>;
+
+  public abstract deriveSharedKey(publicKey: string, peerPublicKey: string): Promise<string>;
+
+  public abstract deleteKeyPair(publicKey: string): Promise<void>;
+
+  public abstract close(): Promise<void>;
 }
 
 export abstract class ICrypto {
   public abstract context: string;
 
-  constructor(public client: IClient, public keychain: IKeyChain) {}
+  public abstract ciphers: string[];
+
+  constructor(
+    public client: IClient,
+    public keychain: IKeyChain,
+    public keyProvider?: IKeyProvider,
+  ) {}
 
   public abstract init(): Promise<void>;
 
+  public abstract close(): Promise<void>;
+
   public abstract hasKeys(tag: string): Promise<boolean>;
 
   public abstract generateKeyPair(): Promise<string>;
 
+  public abstract deleteKeyPair(publicKey: string): Promise<void>;
+
   public abstract generateSharedKey(
     self: CryptoTypes.Participant,
     peer: CryptoTypes.Participant,
     overrideTopic?: string,
+    cipher?: string,
   ): Promise<string>;
 
   public abstract encrypt(topic: string, message: string): Promise<string>;
@@ -1,4 +1,4 @@
-import { JsonRpcPayload } from "@json-rpc-tools/types";
+import { JsonRpcPayload, JsonRpcResponse } from "@json-rpc-tools/types";
 import { AppMetadata } from "./misc";
 
 import { ISequence, SequenceTypes } from "./sequence";
@@ -22,15 +22,27 @@ export abstract class IEngine<
 > {
   constructor(public sequence: ISequence) {}
 
+  public abstract close(): Promise<void>;
+
   public abstract ping(topic: string, timeout?: number): Promise<void>;
-  public abstract send(topic: string, payload: JsonRpcPayload, chainId?: string): Promise<void>;
+  public abstract send(
+    topic: string,
+    payload: JsonRpcPayload,
+    chainId?: string,
+    expiry?: number,
+  ): Promise<void>;
   public abstract create(params?: CreateParams): Promise<Settled>;
   public abstract respond(params: RespondParams): Promise<Pending>;
   public abstract upgrade(params: UpgradeParams): Promise<Settled>;
   public abstract update(params: UpdateParams): Promise<Settled>;
   public abstract request(params: RequestParams): Promise<any>;
+  public abstract requestBatch(
+    params: SequenceTypes.BatchRequestParams,
+  ): Promise<JsonRpcResponse[]>;
   public abstract delete(params: DeleteParams): Promise<void>;
   public abstract notify(params: NotifyParams): Promise<void>;
+  public abstract rotate(params: SequenceTypes.RotateParams): Promise<Settled>;
+  public abstract extend(params: SequenceTypes.ExtendParams): Promise<Settled>;
 
   protected abstract propose(params?: ProposeParams): Promise<Pending>;
   protected abstract settle(params: SettleParams): Promise<Settled>;
@@ -38,9 +50,13 @@ export abstract class IEngine<
   protected abstract onAcknowledge(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
   protected abstract onMessage(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
   protected abstract onPayload(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
+  protected abstract onBatchPayload(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
   protected abstract onUpdate(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
   protected abstract onUpgrade(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
   protected abstract onNotification(event: SubscriptionEvent.Payload): Promise<void>;
+  protected abstract onRotate(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
+  protected abstract onExtend(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
+  protected abstract onCancel(payloadEvent: SubscriptionEvent.Payload): Promise<void>;
 
   protected abstract handleUpdate(
     topic: string,
@@ -52,4 +68,9 @@ export abstract class IEngine<
     params: Upgrade,
     participant: Participant,
   ): Promise<Upgrade>;
+  protected abstract handleExtend(
+    topic: string,
+    params: SequenceTypes.Extend,
+    participant: Participant,
+  ): Promise<SequenceTypes.Extend>;
 }
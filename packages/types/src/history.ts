@@ -10,14 +10,46 @@ import { Logger } from "pino";
 import { IClient } from "./client";
 import { RequestEvent } from "./misc";
 
+export type JsonRpcRecordStatus = "pending" | "resolved" | "rejected" | "cancelled" | "expired";
+
+export type JsonRpcRecordDirection = "sent" | "received";
+
 export interface JsonRpcRecord {
   id: number;
   topic: string;
   request: RequestArguments;
   chainId?: string;
+  expiry?: number;
+  status: JsonRpcRecordStatus;
+  // unknown for records persisted before direction was tracked
+  direction?: JsonRpcRecordDirection;
+  createdAt: number;
+  respondedAt?: number;
   response?: { result: any } | { error: ErrorResponse };
 }
 
+export interface JsonRpcStatusEvent {
+  record: JsonRpcRecord;
+  previousStatus: JsonRpcRecordStatus;
+}
+
+export interface JsonRpcHistoryRetention {
+  // max records kept per topic, oldest are pruned first
+  maxRecordsPerTopic?: number;
+  // max age of answered records in seconds
+  maxAge?: number;
+}
+
+export interface JsonRpcHistoryQuery {
+  topic?: string;
+  method?: string;
+  chainId?: string;
+  status?: JsonRpcRecordStatus;
+  // time range in milliseconds
+  from?: number;
+  to?: number;
+}
+
 export abstract class IJsonRpcHistory extends IEvents {
   public records = new Map<number, JsonRpcRecord>();
 
@@ -37,9 +69,20 @@ export abstract class IJsonRpcHistory extends IEvents {
 
   public abstract init(): Promise<void>;
 
-  public abstract set(topic: string, request: JsonRpcRequest, chainId?: string): Promise<void>;
+  public abstract close(): Promise<void>;
+
+  public abstract set(
+    topic: string,
+    request: JsonRpcRequest,
+    chainId?: string,
+    expiry?: number,
+    direction?: JsonRpcRecordDirection,
+  ): Promise<void>;
   public abstract update(topic: string, response: JsonRpcResponse): Promise<void>;
   public abstract get(topic: string, id: number): Promise<JsonRpcRecord>;
   public abstract delete(topic: string, id?: number): Promise<void>;
+  public abstract move(topic: string, newTopic: string): Promise<void>;
   public abstract exists(topic: string, id: number): Promise<boolean>;
+  public abstract query(query?: JsonRpcHistoryQuery): Promise<JsonRpcRecord[]>;
+  public abstract export(query?: JsonRpcHistoryQuery): Promise<string>;
 }
@@ -3,8 +3,10 @@ export * from "./pairing";
 export * from "./crypto";
 export * from "./engine";
 export * from "./history";
+export * from "./method";
 export * from "./misc";
 export * from "./relayer";
 export * from "./sequence";
 export * from "./session";
+export * from "./storage";
 export * from "./subscription";
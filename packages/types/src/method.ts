@@ -0,0 +1,34 @@
+import { JsonRpcRequest, RequestArguments } from "@json-rpc-tools/types";
+
+export declare namespace MethodTypes {
+  export interface Method<Params = any, Result = any> {
+    params: Params;
+    result: Result;
+  }
+
+  export type Map = Record<string, Method>;
+
+  export type Name<M extends Map = Map> = Extract<keyof M, string>;
+
+  export type Params<M extends Map, K extends Name<M>> = M[K]["params"];
+
+  export type Result<M extends Map, K extends Name<M>> = M[K]["result"];
+
+  export interface Validator<Params = any, Result = any> {
+    params?: (params: Params) => boolean;
+    result?: (result: Result) => boolean;
+  }
+
+  export type Validators<M extends Map = Map> = {
+    [K in Name<M>]?: Validator<Params<M, K>, Result<M, K>>;
+  };
+
+  export interface Request<M extends Map = Map, K extends Name<M> = Name<M>>
+    extends RequestArguments<Params<M, K>> {
+    method: K;
+  }
+
+  export type JsonRpc<M extends Map = Map> = {
+    [K in Name<M>]: JsonRpcRequest<Params<M, K>> & { method: K };
+  }[Name<M>];
+}
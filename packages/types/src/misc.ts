@@ -3,9 +3,9 @@ import { ErrorResponse, JsonRpcRequest } from "@json-rpc-tools/types";
 import { RelayerTypes } from "./relayer";
 
 export declare namespace SignalTypes {
-  export type Method = MethodPairing | MethodUri;
+  export type Method = MethodPairing | MethodUri | MethodDeepLink;
 
-  export type Params = ParamsPairing | ParamsUri;
+  export type Params = ParamsPairing | ParamsUri | ParamsDeepLink;
 
   export interface Base {
     method: Method;
@@ -33,6 +33,28 @@ export declare namespace SignalTypes {
     method: MethodUri;
     params: ParamsUri;
   }
+
+  export type MethodDeepLink = "deeplink";
+
+  // link formats for a wallet where "{uri}" is replaced by the encoded pairing uri
+  export interface LinkTemplate {
+    id: string;
+    name: string;
+    native?: string;
+    universal?: string;
+  }
+
+  // a link template with the pairing uri substituted, ready to be opened
+  export type Link = LinkTemplate;
+
+  export interface ParamsDeepLink extends ParamsUri {
+    links: Link[];
+  }
+
+  export interface DeepLink extends Base {
+    method: MethodDeepLink;
+    params: ParamsDeepLink;
+  }
 }
 
 export interface JsonRpcPermissions {
@@ -59,6 +81,10 @@ export interface UriParameters {
   publicKey: string;
   relay: RelayerTypes.ProtocolOptions;
   controller: boolean;
+  ciphers?: string[];
+  // timestamp in milliseconds after which the uri must be rejected
+  expiryTimestamp?: number;
+  metadata?: AppMetadata;
 }
 
 export interface AppMetadata {
@@ -90,8 +116,14 @@ export declare namespace Validation {
 
 export type Reason = ErrorResponse;
 
+export interface CloseParams {
+  // unsubscribes topics from the relay, persisted subscriptions are kept either way
+  unsubscribe?: boolean;
+}
+
 export interface RequestEvent {
   topic: string;
   request: JsonRpcRequest;
   chainId?: string;
+  expiry?: number;
 }
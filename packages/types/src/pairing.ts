@@ -1,5 +1,8 @@
+import { Logger } from "pino";
+
 import { SequenceTypes, ISequence } from "./sequence";
-import { AppMetadata, SignalTypes } from "./misc";
+import { AppMetadata, Reason, SignalTypes } from "./misc";
+import { IClient } from "./client";
 
 export declare namespace PairingTypes {
   export type Status = SequenceTypes.Status;
@@ -67,11 +70,22 @@ export declare namespace PairingTypes {
 
   export type RequestEvent = SequenceTypes.RequestEvent;
 
+  export type BatchRequestParams = SequenceTypes.BatchRequestParams;
+
+  export type BatchRequestEvent = SequenceTypes.BatchRequestEvent;
+
   export type ResponseEvent = SequenceTypes.ResponseEvent;
 
   export type DeleteParams = SequenceTypes.DeleteParams;
 
-  export type Settled = SequenceTypes.Settled;
+  export type RotateParams = SequenceTypes.RotateParams;
+
+  export type ExtendParams = SequenceTypes.ExtendParams;
+
+  export interface Settled extends SequenceTypes.Settled {
+    // display name assigned locally, never sent to the peer
+    label?: string;
+  }
 
   export type Created = SequenceTypes.Created;
 
@@ -92,6 +106,28 @@ export declare namespace PairingTypes {
   export type NotificationEvent = SequenceTypes.NotificationEvent;
 
   export type NotifyParams = SequenceTypes.NotifyParams;
+
+  export interface UriOptions {
+    // embeds the proposal expiry so stale uris are rejected
+    expiry: boolean;
+    // embeds the proposer name, url and first icon
+    metadata: boolean;
+  }
+
+  export interface PruneOptions {
+    // seconds between ping rounds
+    interval: number;
+    // consecutive failed pings before a pairing is deleted
+    maxFailedPings: number;
+  }
+
+  export interface PruneRecord {
+    topic: string;
+    // consecutive failed pings
+    failedPings: number;
+    // timestamp in milliseconds of the last ping
+    pingedAt: number;
+  }
 }
 
 export abstract class IPairing extends ISequence<
@@ -116,3 +152,21 @@ export abstract class IPairing extends ISequence<
   PairingTypes.DefaultSignalParams,
   PairingTypes.ProposedPermissions
 > {}
+
+export abstract class IPairingManager {
+  public abstract readonly context: string;
+
+  constructor(public client: IClient, public logger: Logger) {}
+
+  public abstract init(): Promise<void>;
+
+  public abstract close(): Promise<void>;
+
+  public abstract list(): PairingTypes.Settled[];
+
+  public abstract rename(topic: string, label: string): Promise<void>;
+
+  public abstract ping(topic: string, timeout?: number): Promise<void>;
+
+  public abstract delete(topic: string, reason?: Reason): Promise<void>;
+}
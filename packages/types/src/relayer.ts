@@ -17,6 +17,49 @@ export declare namespace RelayerTypes {
   export interface SubscribeOptions {
     relay: ProtocolOptions;
   }
+
+  export interface BatchMethods {
+    batchSubscribe: string;
+    batchUnsubscribe: string;
+  }
+
+  export interface BatchSubscribeParams {
+    topics: string[];
+  }
+
+  export interface BatchUnsubscribeParams {
+    ids: string[];
+  }
+
+  export interface ReconnectOptions {
+    baseDelay?: number;
+    maxDelay?: number;
+    jitter?: number;
+    maxAttempts?: number;
+  }
+
+  export interface ReconnectEvent {
+    attempt: number;
+    delay: number;
+  }
+
+  export interface FailoverEvent {
+    rpcUrl: string;
+  }
+
+  export interface QueuedMessage {
+    id: number;
+    topic: string;
+    message: string;
+    opts?: PublishOptions;
+    // publish attempts that failed while connected
+    attempts?: number;
+  }
+
+  export interface MessageEvent {
+    id: number;
+    topic: string;
+  }
 }
 
 export abstract class IRelayer extends IEvents {
@@ -24,14 +67,23 @@ export abstract class IRelayer extends IEvents {
 
   public abstract context: string;
 
+  public abstract queue: Map<string, RelayerTypes.QueuedMessage>;
+
   public abstract readonly connected: boolean;
 
-  constructor(public client: IClient, public logger: Logger, provider?: string | IJsonRpcProvider) {
+  constructor(
+    public client: IClient,
+    public logger: Logger,
+    provider?: string | string[] | IJsonRpcProvider,
+    reconnect?: RelayerTypes.ReconnectOptions,
+  ) {
     super();
   }
 
   public abstract init(): Promise<void>;
 
+  public abstract close(): Promise<void>;
+
   public abstract publish(
     topic: string,
     payload: JsonRpcPayload,
@@ -45,4 +97,15 @@ export abstract class IRelayer extends IEvents {
   ): Promise<string>;
 
   public abstract unsubscribe(id: string, opts?: RelayerTypes.SubscribeOptions): Promise<void>;
+
+  public abstract batchSubscribe(
+    topics: string[],
+    listener: (topic: string, payload: JsonRpcPayload) => void,
+    opts?: RelayerTypes.SubscribeOptions,
+  ): Promise<string[]>;
+
+  public abstract batchUnsubscribe(
+    ids: string[],
+    opts?: RelayerTypes.SubscribeOptions,
+  ): Promise<void>;
 }
@@ -13,6 +13,7 @@ import { ISubscription } from "./subscription";
 import { IJsonRpcHistory } from "./history";
 import {
   AppMetadata,
+  CloseParams,
   JsonRpcPermissions,
   NotificationPermissions,
   Reason,
@@ -35,11 +36,15 @@ export declare namespace SequenceTypes {
     updated: string;
     deleted: string;
     request: string;
+    batchRequest: string;
     response: string;
     enabled: string;
     disabled: string;
     sync: string;
     notification: string;
+    rotated: string;
+    expiring: string;
+    cancelled: string;
   }
   export interface JsonRpc {
     propose: string;
@@ -49,8 +54,12 @@ export declare namespace SequenceTypes {
     upgrade: string;
     delete: string;
     payload: string;
+    batchPayload: string;
     ping: string;
     notification: string;
+    rotate: string;
+    extend: string;
+    cancel: string;
   }
 
   export interface Config<E = Events, J = JsonRpc, S = Status> {
@@ -101,6 +110,7 @@ export declare namespace SequenceTypes {
     signal: S;
     permissions: Per;
     ttl: number;
+    ciphers?: string[];
   }
 
   export type ProposedStatus = "proposed";
@@ -147,6 +157,7 @@ export declare namespace SequenceTypes {
     permissions: Per;
     ttl: number;
     expiry: number;
+    cipher?: string;
   }
 
   export interface UpgradeParams<Per = Permissions> extends Upgrade<Per> {
@@ -162,6 +173,11 @@ export declare namespace SequenceTypes {
     request: RequestArguments;
     timeout?: number;
     chainId?: string;
+    signal?: AbortSignal;
+  }
+
+  export interface BatchRequestParams extends Omit<RequestParams, "request"> {
+    requests: RequestArguments[];
   }
 
   export interface Upgrade<Per = Permissions> {
@@ -175,18 +191,30 @@ export declare namespace SequenceTypes {
   export interface Request {
     request: RequestArguments;
     chainId?: string;
+    expiry?: number;
+  }
+
+  export interface BatchRequest {
+    requests: JsonRpcRequest[];
+    chainId?: string;
+    expiry?: number;
   }
 
   export interface PayloadEvent {
     topic: string;
     payload: JsonRpcPayload;
     chainId?: string;
+    expiry?: number;
   }
 
   export interface RequestEvent extends Omit<PayloadEvent, "payload"> {
     request: JsonRpcRequest;
   }
 
+  export interface BatchRequestEvent extends Omit<PayloadEvent, "payload"> {
+    requests: JsonRpcRequest[];
+  }
+
   export interface ResponseEvent extends Omit<PayloadEvent, "payload"> {
     response: JsonRpcResponse;
   }
@@ -196,6 +224,27 @@ export declare namespace SequenceTypes {
     reason: Reason;
   }
 
+  export interface RotateParams {
+    topic: string;
+  }
+
+  export interface Rotate {
+    publicKey: string;
+  }
+
+  export interface ExtendParams {
+    topic: string;
+    ttl: number;
+  }
+
+  export interface Extend {
+    expiry: number;
+  }
+
+  export interface Cancel {
+    id: number;
+  }
+
   export interface Settled<S = State, Par = Participant, Per = Permissions> {
     topic: string;
     relay: Relay;
@@ -204,6 +253,7 @@ export declare namespace SequenceTypes {
     permissions: Per;
     expiry: number;
     state: S;
+    cipher?: string;
   }
 
   export type Created<S = State, Par = Participant, Per = Permissions> = Settled<S, Par, Per>;
@@ -214,6 +264,7 @@ export declare namespace SequenceTypes {
     responder: Par;
     expiry: number;
     state: S;
+    cipher?: string;
   }
 
   export interface Failed {
@@ -233,6 +284,8 @@ export declare namespace SequenceTypes {
     topic: string;
     relay: Relay;
     proposer: P;
+    ttl: number;
+    ciphers?: string[];
   }
 
   export interface Notification {
@@ -314,6 +367,9 @@ export abstract class ISequence<
   // initialize with persisted state
   public abstract init(): Promise<void>;
 
+  // persist state and release timers and listeners
+  public abstract close(params?: CloseParams): Promise<void>;
+
   // get settled subscription data
   public abstract get(topic: string): Promise<Settled>;
 
@@ -329,6 +385,10 @@ export abstract class ISequence<
 
   // called by proposer to request JSON-RPC
   public abstract request(params: RequestParams): Promise<any>;
+  // called by proposer to request a batch of JSON-RPC, resolves a response for each request
+  public abstract requestBatch(
+    params: SequenceTypes.BatchRequestParams,
+  ): Promise<JsonRpcResponse[]>;
   // called by responder to upgrade permissions
   public abstract upgrade(params: UpgradeParams): Promise<Settled>;
 
@@ -336,6 +396,10 @@ export abstract class ISequence<
   public abstract update(params: UpdateParams): Promise<Settled>;
   // called by either to terminate
   public abstract delete(params: DeleteParams): Promise<void>;
+  // called by controller to rotate keys and topic
+  public abstract rotate(params: SequenceTypes.RotateParams): Promise<Settled>;
+  // called by controller to extend expiry
+  public abstract extend(params: SequenceTypes.ExtendParams): Promise<Settled>;
   // called by either to notify
   public abstract notify(params: NotifyParams): Promise<void>;
 
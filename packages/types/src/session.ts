@@ -9,7 +9,10 @@ export declare namespace SessionTypes {
 
   export type JsonRpc = SequenceTypes.JsonRpc;
 
-  export type Events = SequenceTypes.Events;
+  export interface Events extends SequenceTypes.Events {
+    online: string;
+    offline: string;
+  }
 
   export type Config = SequenceTypes.Config<Events, JsonRpc, Status>;
 
@@ -83,6 +86,10 @@ export declare namespace SessionTypes {
     chainId?: string;
   }
 
+  export interface BatchRequestParams extends SequenceTypes.BatchRequestParams {
+    chainId?: string;
+  }
+
   export type Upgrade = SequenceTypes.Upgrade<Permissions>;
 
   export type Update = SequenceTypes.Update<State>;
@@ -99,13 +106,25 @@ export declare namespace SessionTypes {
     request: JsonRpcRequest;
   }
 
+  export interface BatchRequestEvent extends Omit<PayloadEvent, "payload"> {
+    requests: JsonRpcRequest[];
+  }
+
   export interface ResponseEvent extends Omit<PayloadEvent, "payload"> {
     response: JsonRpcResponse;
   }
 
   export type DeleteParams = SequenceTypes.DeleteParams;
 
-  export type Settled = SequenceTypes.Settled<State, Participant, Permissions>;
+  export type RotateParams = SequenceTypes.RotateParams;
+
+  export type ExtendParams = SequenceTypes.ExtendParams;
+
+  export interface Settled extends SequenceTypes.Settled<State, Participant, Permissions> {
+    // timestamp in milliseconds of the last ping answered or message received from the peer, only
+    // tracked in memory by the running client
+    lastSeen?: number;
+  }
 
   export type Created = Settled;
 
@@ -129,6 +148,13 @@ export declare namespace SessionTypes {
   export type NotificationEvent = SequenceTypes.NotificationEvent;
 
   export type NotifyParams = SequenceTypes.NotifyParams;
+
+  export interface HeartbeatOptions {
+    // seconds between pings to each settled session
+    interval: number;
+    // seconds to wait for a ping response before the peer is considered offline
+    timeout: number;
+  }
 }
 
 export abstract class ISession extends ISequence<
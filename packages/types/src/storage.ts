@@ -0,0 +1,72 @@
+import { EventEmitter } from "events";
+import { Logger } from "pino";
+import { IKeyValueStorage } from "keyvaluestorage";
+
+import { IClient } from "./client";
+
+export declare namespace StorageTypes {
+  // transforms a value persisted with the previous schema version into the next one
+  export type Migration = (key: string, value: any) => any | Promise<any>;
+
+  export type Migrations = Record<number, Migration>;
+
+  export interface Quarantined {
+    key: string;
+    value: any;
+    reason: string;
+    timestamp: number;
+  }
+
+  export interface Change<T = any> {
+    key: string;
+    value: T | undefined;
+    previous: T | undefined;
+  }
+
+  export interface MergeOptions<T = any> {
+    getId: (value: T) => string | number;
+    serialize?: (value: T) => string;
+  }
+}
+
+export abstract class IStorage extends IKeyValueStorage {
+  public abstract events: EventEmitter;
+
+  public abstract readonly id: string;
+
+  public abstract readonly context: string;
+
+  public abstract version: number;
+
+  public abstract migrations: Map<number, StorageTypes.Migration>;
+
+  constructor(public client: IClient, public logger: Logger, public storage: IKeyValueStorage) {
+    super();
+  }
+
+  public abstract init(): Promise<void>;
+
+  public abstract close(): Promise<void>;
+
+  public abstract register(version: number, migration: StorageTypes.Migration): void;
+
+  public abstract enqueue<T = any>(callback: () => Promise<T>): Promise<T>;
+
+  public abstract merge<T = any>(
+    key: string,
+    values: T[],
+    opts: StorageTypes.MergeOptions<T>,
+  ): Promise<T[]>;
+
+  public abstract quarantine(key: string, value: any, reason: string): Promise<void>;
+
+  public abstract getQuarantined(): Promise<StorageTypes.Quarantined[]>;
+
+  public abstract on(event: string, listener: any): void;
+
+  public abstract once(event: string, listener: any): void;
+
+  public abstract off(event: string, listener: any): void;
+
+  public abstract removeListener(event: string, listener: any): void;
+}
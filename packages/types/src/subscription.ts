@@ -2,7 +2,7 @@ import { JsonRpcPayload, IEvents } from "@json-rpc-tools/types";
 import { Logger } from "pino";
 
 import { IClient } from "./client";
-import { Reason } from "./misc";
+import { CloseParams, Reason } from "./misc";
 import { RelayerTypes } from "./relayer";
 
 export interface SubscriptionOptions extends RelayerTypes.SubscribeOptions {
@@ -14,6 +14,8 @@ export interface SubscriptionParams<Data> extends SubscriptionOptions {
   topic: string;
   data: Data;
   expiry: number;
+  // topic moved away from, kept subscribed until traffic arrives on the new topic
+  previousTopic?: string;
 }
 
 export declare namespace SubscriptionEvent {
@@ -25,6 +27,8 @@ export declare namespace SubscriptionEvent {
   export interface Created<T> {
     topic: string;
     data: T;
+    // set when the subscription was created by another client instance sharing the storage
+    synced?: boolean;
   }
 
   export interface Updated<T> {
@@ -33,10 +37,27 @@ export declare namespace SubscriptionEvent {
     update: Partial<T>;
   }
 
+  export interface Moved<T> {
+    topic: string;
+    previousTopic: string;
+    data: T;
+  }
+
+  export type Retired<T> = Moved<T>;
+
+  export interface Expiring<T> {
+    topic: string;
+    data: T;
+    expiry: number;
+    threshold: number;
+  }
+
   export interface Deleted<T> {
     topic: string;
     data: T;
     reason: Reason;
+    // set when the subscription was deleted by another client instance sharing the storage
+    synced?: boolean;
   }
 }
 
@@ -57,6 +78,8 @@ export abstract class ISubscription<Data> extends IEvents {
 
   public abstract init(): Promise<void>;
 
+  public abstract close(params?: CloseParams): Promise<void>;
+
   public abstract set(topic: string, data: Data, opts: SubscriptionOptions): Promise<void>;
 
   public abstract get(topic: string): Promise<Data>;
@@ -65,6 +88,8 @@ export abstract class ISubscription<Data> extends IEvents {
 
   public abstract delete(topic: string, reason: Reason): Promise<void>;
 
+  public abstract move(topic: string, newTopic: string, data: Data): Promise<void>;
+
   // ---------- Protected ----------------------------------------------- //
 
   protected abstract onPayload(payloadEvent: SubscriptionEvent.Payload): Promise<any>;
@@ -1,4 +1,7 @@
 import { CryptoTypes } from "@walletconnect/types";
+import { ChaCha20Poly1305 } from "@stablelib/chacha20poly1305";
+import { deriveKey } from "@stablelib/pbkdf2";
+import { SHA256 } from "@stablelib/sha256";
 import * as ecies25519 from "ecies-25519";
 import * as encUtils from "enc-utils";
 
@@ -22,6 +25,17 @@ export function deriveSharedKey(privateKeyA: string, publicKeyB: string): string
   return encUtils.arrayToHex(sharedKey);
 }
 
+export function deriveWrappingKey(secret: string, salt: string, iterations: number): string {
+  const key = deriveKey(
+    SHA256,
+    encUtils.hexToArray(secret),
+    encUtils.hexToArray(salt),
+    iterations,
+    32,
+  );
+  return encUtils.arrayToHex(key);
+}
+
 export async function sha256(msg: string): Promise<string> {
   const hash = await ecies25519.sha256(encUtils.hexToArray(msg));
   return encUtils.arrayToHex(hash);
@@ -42,3 +56,128 @@ export async function decrypt(params: CryptoTypes.DecryptParams): Promise<string
   const msg = await ecies25519.decryptWithSharedKey(encrypted, sharedKey);
   return encUtils.arrayToUtf8(msg);
 }
+
+export function encryptSymmetric(key: string, message: string): string {
+  return sealChaCha20Poly1305({ sharedKey: key, message });
+}
+
+export function decryptSymmetric(key: string, encrypted: string): string {
+  return openChaCha20Poly1305(key, encrypted);
+}
+
+// -- envelope ------------------------------------------------ //
+
+export const ENVELOPE_TYPE = 0;
+
+export const CIPHER_ECIES_25519 = "ecies-25519";
+
+export const CIPHER_CHACHA20_POLY1305 = "chacha20-poly1305";
+
+export const CIPHER_ALGORITHMS: Record<string, number> = {
+  [CIPHER_ECIES_25519]: 0,
+  [CIPHER_CHACHA20_POLY1305]: 1,
+};
+
+export const SUPPORTED_CIPHERS = [CIPHER_CHACHA20_POLY1305, CIPHER_ECIES_25519];
+
+const CHACHA20_POLY1305_NONCE_LENGTH = 12;
+
+export function isSupportedCipher(cipher: string): boolean {
+  return typeof CIPHER_ALGORITHMS[cipher] !== "undefined";
+}
+
+export function getCipherAlgorithm(cipher: string): number {
+  if (!isSupportedCipher(cipher)) {
+    throw new Error(`Unsupported cipher: ${cipher}`);
+  }
+  return CIPHER_ALGORITHMS[cipher];
+}
+
+export function getCipherFromAlgorithm(algorithm: number): string {
+  const cipher = Object.keys(CIPHER_ALGORITHMS).find(key => CIPHER_ALGORITHMS[key] === algorithm);
+  if (typeof cipher === "undefined") {
+    throw new Error(`Unsupported cipher algorithm: ${algorithm}`);
+  }
+  return cipher;
+}
+
+export function negotiateCipher(proposed: string[], supported = SUPPORTED_CIPHERS): string {
+  const cipher = proposed.find(cipher => supported.includes(cipher));
+  if (typeof cipher === "undefined") {
+    throw new Error(`No supported cipher found in: ${proposed.join(", ")}`);
+  }
+  return cipher;
+}
+
+export function serializeEnvelope(envelope: CryptoTypes.Envelope): string {
+  const header = new Uint8Array([envelope.type, getCipherAlgorithm(envelope.cipher)]);
+  return encUtils.arrayToHex(encUtils.concatArrays(header, encUtils.hexToArray(envelope.payload)));
+}
+
+export function deserializeEnvelope(serialized: string): CryptoTypes.Envelope {
+  const arr = encUtils.hexToArray(serialized);
+  const type = arr[0];
+  if (type !== ENVELOPE_TYPE) {
+    throw new Error(`Unsupported envelope type: ${type}`);
+  }
+  const cipher = getCipherFromAlgorithm(arr[1]);
+  const payload = encUtils.arrayToHex(arr.slice(2));
+  return { type, cipher, payload };
+}
+
+export async function encryptEnvelope(params: CryptoTypes.EnvelopeEncryptParams): Promise<string> {
+  const { cipher } = params;
+  let payload: string;
+  switch (cipher) {
+    case CIPHER_ECIES_25519:
+      payload = await encrypt(params);
+      break;
+    case CIPHER_CHACHA20_POLY1305:
+      payload = sealChaCha20Poly1305(params, getEnvelopeHeader(cipher));
+      break;
+    default:
+      throw new Error(`Unsupported cipher: ${cipher}`);
+  }
+  return serializeEnvelope({ type: ENVELOPE_TYPE, cipher, payload });
+}
+
+export async function decryptEnvelope(params: CryptoTypes.DecryptParams): Promise<string> {
+  const { cipher, payload } = deserializeEnvelope(params.encrypted);
+  switch (cipher) {
+    case CIPHER_ECIES_25519:
+      return decrypt({ sharedKey: params.sharedKey, encrypted: payload });
+    case CIPHER_CHACHA20_POLY1305:
+      return openChaCha20Poly1305(params.sharedKey, payload, getEnvelopeHeader(cipher));
+    default:
+      throw new Error(`Unsupported cipher: ${cipher}`);
+  }
+}
+
+function getEnvelopeHeader(cipher: string): Uint8Array {
+  return new Uint8Array([ENVELOPE_TYPE, getCipherAlgorithm(cipher)]);
+}
+
+function sealChaCha20Poly1305(
+  params: Pick<CryptoTypes.EncryptParams, "sharedKey" | "message" | "iv">,
+  header?: Uint8Array,
+): string {
+  const nonce =
+    typeof params.iv !== "undefined"
+      ? encUtils.hexToArray(params.iv)
+      : ecies25519.randomBytes(CHACHA20_POLY1305_NONCE_LENGTH);
+  const box = new ChaCha20Poly1305(encUtils.hexToArray(params.sharedKey));
+  const sealed = box.seal(nonce, encUtils.utf8ToArray(params.message), header);
+  return encUtils.arrayToHex(encUtils.concatArrays(nonce, sealed));
+}
+
+function openChaCha20Poly1305(sharedKey: string, payload: string, header?: Uint8Array): string {
+  const arr = encUtils.hexToArray(payload);
+  const nonce = arr.slice(0, CHACHA20_POLY1305_NONCE_LENGTH);
+  const sealed = arr.slice(CHACHA20_POLY1305_NONCE_LENGTH);
+  const box = new ChaCha20Poly1305(encUtils.hexToArray(sharedKey));
+  const msg = box.open(nonce, sealed, header);
+  if (msg === null) {
+    throw new Error("Failed to decrypt payload");
+  }
+  return encUtils.arrayToUtf8(msg);
+}
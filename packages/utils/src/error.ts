@@ -11,6 +11,11 @@ export const ERROR_TYPE = enumify({
   MISSING_DECRYPT_PARAMS: "MISSING_DECRYPT_PARAMS",
   INVALID_UPDATE_REQUEST: "INVALID_UPDATE_REQUEST",
   INVALID_UPGRADE_REQUEST: "INVALID_UPGRADE_REQUEST",
+  INVALID_EXTEND_REQUEST: "INVALID_EXTEND_REQUEST",
+  INVALID_STORAGE_VERSION: "INVALID_STORAGE_VERSION",
+  INVALID_URI_PROTOCOL: "INVALID_URI_PROTOCOL",
+  INVALID_URI_VERSION: "INVALID_URI_VERSION",
+  INVALID_URI_CIPHER: "INVALID_URI_CIPHER",
   RECORD_ALREADY_EXISTS: "RECORD_ALREADY_EXISTS",
   RESTORE_WILL_OVERRIDE: "RESTORE_WILL_OVERRIDE",
   NO_MATCHING_ID: "NO_MATCHING_ID",
@@ -28,6 +33,9 @@ export const ERROR_TYPE = enumify({
   // 2000 (Timeout)
   SETTLE_TIMEOUT: "SETTLE_TIMEOUT",
   JSONRPC_REQUEST_TIMEOUT: "JSONRPC_REQUEST_TIMEOUT",
+  JSONRPC_REQUEST_CANCELLED: "JSONRPC_REQUEST_CANCELLED",
+  JSONRPC_REQUEST_EXPIRED: "JSONRPC_REQUEST_EXPIRED",
+  PEER_UNREACHABLE: "PEER_UNREACHABLE",
   // 3000 (Unauthorized)
   UNAUTHORIZED_TARGET_CHAIN: "UNAUTHORIZED_TARGET_CHAIN",
   UNAUTHORIZED_JSON_RPC_METHOD: "UNAUTHORIZED_JSON_RPC_METHOD",
@@ -35,6 +43,9 @@ export const ERROR_TYPE = enumify({
   UNAUTHORIZED_UPDATE_REQUEST: "UNAUTHORIZED_UPDATE_REQUEST",
   UNAUTHORIZED_UPGRADE_REQUEST: "UNAUTHORIZED_UPGRADE_REQUEST",
   UNAUTHORIZED_MATCHING_CONTROLLER: "UNAUTHORIZED_MATCHING_CONTROLLER",
+  UNAUTHORIZED_KEYCHAIN_KEY: "UNAUTHORIZED_KEYCHAIN_KEY",
+  UNAUTHORIZED_ROTATE_REQUEST: "UNAUTHORIZED_ROTATE_REQUEST",
+  UNAUTHORIZED_EXTEND_REQUEST: "UNAUTHORIZED_EXTEND_REQUEST",
   // 4000 (EIP-1193)
   JSONRPC_REQUEST_METHOD_REJECTED: "JSONRPC_REQUEST_METHOD_REJECTED",
   JSONRPC_REQUEST_METHOD_UNAUTHORIZED: "JSONRPC_REQUEST_METHOD_UNAUTHORIZED",
@@ -135,6 +146,56 @@ export const ERROR: Record<ErrorType, Error> = {
       message: ERROR[ERROR_TYPE.INVALID_UPGRADE_REQUEST].stringify(params),
     }),
   },
+  [ERROR_TYPE.INVALID_EXTEND_REQUEST]: {
+    type: ERROR_TYPE.INVALID_EXTEND_REQUEST,
+    code: 1005,
+    stringify: (params?: any) =>
+      `Invalid ${params?.context || defaultParams.context} extend request`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.INVALID_EXTEND_REQUEST].code,
+      message: ERROR[ERROR_TYPE.INVALID_EXTEND_REQUEST].stringify(params),
+    }),
+  },
+  [ERROR_TYPE.INVALID_STORAGE_VERSION]: {
+    type: ERROR_TYPE.INVALID_STORAGE_VERSION,
+    code: 1006,
+    stringify: (params?: any) =>
+      `Invalid storage version ${params?.version}, latest supported is ${params?.supported}`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.INVALID_STORAGE_VERSION].code,
+      message: ERROR[ERROR_TYPE.INVALID_STORAGE_VERSION].stringify(params),
+    }),
+  },
+  [ERROR_TYPE.INVALID_URI_PROTOCOL]: {
+    type: ERROR_TYPE.INVALID_URI_PROTOCOL,
+    code: 1007,
+    stringify: (params?: any) =>
+      `Invalid uri protocol ${params?.protocol}, supported is ${params?.supported}`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.INVALID_URI_PROTOCOL].code,
+      message: ERROR[ERROR_TYPE.INVALID_URI_PROTOCOL].stringify(params),
+    }),
+  },
+  [ERROR_TYPE.INVALID_URI_VERSION]: {
+    type: ERROR_TYPE.INVALID_URI_VERSION,
+    code: 1008,
+    stringify: (params?: any) =>
+      `Invalid uri version ${params?.version}, supported is ${params?.supported}`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.INVALID_URI_VERSION].code,
+      message: ERROR[ERROR_TYPE.INVALID_URI_VERSION].stringify(params),
+    }),
+  },
+  [ERROR_TYPE.INVALID_URI_CIPHER]: {
+    type: ERROR_TYPE.INVALID_URI_CIPHER,
+    code: 1009,
+    stringify: (params?: any) =>
+      `Invalid uri ciphers ${params?.ciphers}, supported are ${params?.supported}`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.INVALID_URI_CIPHER].code,
+      message: ERROR[ERROR_TYPE.INVALID_URI_CIPHER].stringify(params),
+    }),
+  },
   [ERROR_TYPE.RECORD_ALREADY_EXISTS]: {
     type: ERROR_TYPE.RECORD_ALREADY_EXISTS,
     code: 1100,
@@ -296,6 +357,36 @@ export const ERROR: Record<ErrorType, Error> = {
       message: ERROR[ERROR_TYPE.JSONRPC_REQUEST_TIMEOUT].stringify(params),
     }),
   },
+  [ERROR_TYPE.JSONRPC_REQUEST_CANCELLED]: {
+    type: ERROR_TYPE.JSONRPC_REQUEST_CANCELLED,
+    code: 2002,
+    stringify: (params?: any) => `JSON-RPC Request cancelled: ${params?.method}`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.JSONRPC_REQUEST_CANCELLED].code,
+      message: ERROR[ERROR_TYPE.JSONRPC_REQUEST_CANCELLED].stringify(params),
+    }),
+  },
+  [ERROR_TYPE.JSONRPC_REQUEST_EXPIRED]: {
+    type: ERROR_TYPE.JSONRPC_REQUEST_EXPIRED,
+    code: 2003,
+    stringify: (params?: any) => `JSON-RPC Request expired: ${params?.method}`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.JSONRPC_REQUEST_EXPIRED].code,
+      message: ERROR[ERROR_TYPE.JSONRPC_REQUEST_EXPIRED].stringify(params),
+    }),
+  },
+  [ERROR_TYPE.PEER_UNREACHABLE]: {
+    type: ERROR_TYPE.PEER_UNREACHABLE,
+    code: 2004,
+    stringify: (params?: any) =>
+      `${capitalize(params?.context || defaultParams.context)} peer unreachable after ${
+        params?.attempts
+      } pings`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.PEER_UNREACHABLE].code,
+      message: ERROR[ERROR_TYPE.PEER_UNREACHABLE].stringify(params),
+    }),
+  },
   // 3000 (Unauthorized)
   [ERROR_TYPE.UNAUTHORIZED_TARGET_CHAIN]: {
     type: ERROR_TYPE.UNAUTHORIZED_TARGET_CHAIN,
@@ -354,6 +445,36 @@ export const ERROR: Record<ErrorType, Error> = {
       message: ERROR[ERROR_TYPE.UNAUTHORIZED_MATCHING_CONTROLLER].stringify(params),
     }),
   },
+  [ERROR_TYPE.UNAUTHORIZED_KEYCHAIN_KEY]: {
+    type: ERROR_TYPE.UNAUTHORIZED_KEYCHAIN_KEY,
+    code: 3006,
+    stringify: (params?: any) =>
+      `Unauthorized keychain access: ${params?.message || "invalid passphrase or wrapping key"}`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.UNAUTHORIZED_KEYCHAIN_KEY].code,
+      message: ERROR[ERROR_TYPE.UNAUTHORIZED_KEYCHAIN_KEY].stringify(params),
+    }),
+  },
+  [ERROR_TYPE.UNAUTHORIZED_ROTATE_REQUEST]: {
+    type: ERROR_TYPE.UNAUTHORIZED_ROTATE_REQUEST,
+    code: 3007,
+    stringify: (params?: any) =>
+      `Unauthorized ${params?.context || defaultParams.context} rotate request`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.UNAUTHORIZED_ROTATE_REQUEST].code,
+      message: ERROR[ERROR_TYPE.UNAUTHORIZED_ROTATE_REQUEST].stringify(params),
+    }),
+  },
+  [ERROR_TYPE.UNAUTHORIZED_EXTEND_REQUEST]: {
+    type: ERROR_TYPE.UNAUTHORIZED_EXTEND_REQUEST,
+    code: 3008,
+    stringify: (params?: any) =>
+      `Unauthorized ${params?.context || defaultParams.context} extend request`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.UNAUTHORIZED_EXTEND_REQUEST].code,
+      message: ERROR[ERROR_TYPE.UNAUTHORIZED_EXTEND_REQUEST].stringify(params),
+    }),
+  },
   // 4000 (EIP-1193)
   [ERROR_TYPE.JSONRPC_REQUEST_METHOD_REJECTED]: {
     type: ERROR_TYPE.JSONRPC_REQUEST_METHOD_REJECTED,
@@ -1,6 +1,7 @@
 import * as qs from "query-string";
 import { getWindowMetadata } from "window-metadata";
 import { getDocument, getLocation, getNavigator } from "window-getters";
+import { safeJsonStringify } from "safe-json-utils";
 import { RelayClientMetadata, AppMetadata } from "@walletconnect/types";
 
 // -- env -----------------------------------------------//
@@ -94,6 +95,28 @@ export function mapEntries<A = any, B = any>(
   return res;
 }
 
+// -- merge ------------------------------------------------- //
+
+// three-way merge keyed by id, local changes since base take precedence over remote
+export function mergeValues<T = any>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  getId: (value: T) => string | number,
+  serialize: (value: T) => string = safeJsonStringify,
+): T[] {
+  const previous = new Map(base.map(value => [getId(value), serialize(value)]));
+  const current = new Map(local.map(value => [getId(value), value]));
+  const merged = new Map(remote.map(value => [getId(value), value]));
+  previous.forEach((_, id) => {
+    if (!current.has(id)) merged.delete(id);
+  });
+  current.forEach((value, id) => {
+    if (previous.get(id) !== serialize(value)) merged.set(id, value);
+  });
+  return Array.from(merged.values());
+}
+
 // -- enum ------------------------------------------------- //
 
 // source: https://github.com/microsoft/TypeScript/issues/3192#issuecomment-261720275
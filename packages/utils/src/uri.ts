@@ -1,9 +1,42 @@
 import * as qs from "query-string";
-import { UriParameters } from "@walletconnect/types";
+import { AppMetadata, RelayerTypes, SignalTypes, UriParameters } from "@walletconnect/types";
 import { safeJsonParse, safeJsonStringify } from "safe-json-utils";
 
 // -- uri -------------------------------------------------- //
 
+function parseRelayParams(queryParams: qs.ParsedQuery): RelayerTypes.ProtocolOptions {
+  // compact form carries only the protocol name, e.g. "relay-protocol=waku"
+  if (typeof queryParams["relay-protocol"] === "string") {
+    return { protocol: queryParams["relay-protocol"] };
+  }
+  const relay =
+    typeof queryParams.relay === "string" ? safeJsonParse(queryParams.relay) : undefined;
+  return relay as RelayerTypes.ProtocolOptions;
+}
+
+// metadata is flattened into "metadata-*" params to keep uris short enough for QR codes
+function formatMetadataParams(metadata?: AppMetadata): Record<string, string> {
+  if (typeof metadata === "undefined") return {};
+  const params: Record<string, string> = {
+    "metadata-name": metadata.name,
+    "metadata-url": metadata.url,
+    "metadata-icons": metadata.icons.join(","),
+  };
+  if (metadata.description) params["metadata-description"] = metadata.description;
+  return params;
+}
+
+function parseMetadataParams(queryParams: qs.ParsedQuery): AppMetadata | undefined {
+  if (typeof queryParams["metadata-name"] !== "string") return undefined;
+  const icons = queryParams["metadata-icons"];
+  return {
+    name: queryParams["metadata-name"],
+    description: (queryParams["metadata-description"] as string) || "",
+    url: (queryParams["metadata-url"] as string) || "",
+    icons: typeof icons === "string" && icons ? icons.split(",") : [],
+  };
+}
+
 export function formatUri(params: UriParameters): string {
   return (
     `${params.protocol}:${params.topic}@${params.version}?` +
@@ -11,6 +44,9 @@ export function formatUri(params: UriParameters): string {
       publicKey: params.publicKey,
       controller: params.controller,
       relay: safeJsonStringify(params.relay),
+      ciphers: params.ciphers?.join(","),
+      expiryTimestamp: params.expiryTimestamp,
+      ...formatMetadataParams(params.metadata),
     })
   );
 }
@@ -23,13 +59,71 @@ export function parseUri(str: string): UriParameters {
   const requiredValues = path.split("@");
   const queryString: string = typeof pathEnd !== "undefined" ? str.substr(pathEnd) : "";
   const queryParams = qs.parse(queryString);
-  const result = {
+  const result: UriParameters = {
     protocol,
     topic: requiredValues[0],
     version: parseInt(requiredValues[1], 10),
     publicKey: queryParams.publicKey as string,
     controller: queryParams.controller === "true",
-    relay: safeJsonParse(queryParams.relay as string),
+    relay: parseRelayParams(queryParams),
   };
+  if (typeof queryParams.ciphers === "string") {
+    result.ciphers = queryParams.ciphers.split(",");
+  }
+  if (typeof queryParams.expiryTimestamp === "string") {
+    result.expiryTimestamp = Number(queryParams.expiryTimestamp);
+  }
+  const metadata = parseMetadataParams(queryParams);
+  if (typeof metadata !== "undefined") {
+    result.metadata = metadata;
+  }
   return result;
 }
+
+// -- deeplink -------------------------------------------------- //
+
+export const LINK_TEMPLATE_URI_PLACEHOLDER = "{uri}";
+
+const linkTemplates = new Map<string, SignalTypes.LinkTemplate>();
+
+export function validateLinkTemplate(template: SignalTypes.LinkTemplate): void {
+  const formats = [template.native, template.universal].filter(x => typeof x !== "undefined");
+  if (!formats.length || formats.some(x => !x?.includes(LINK_TEMPLATE_URI_PLACEHOLDER))) {
+    throw new Error(`Invalid link template for wallet: ${template.id}`);
+  }
+}
+
+export function registerLinkTemplate(template: SignalTypes.LinkTemplate): void {
+  validateLinkTemplate(template);
+  linkTemplates.set(template.id, template);
+}
+
+export function removeLinkTemplate(id: string): void {
+  linkTemplates.delete(id);
+}
+
+export function getLinkTemplates(): SignalTypes.LinkTemplate[] {
+  return Array.from(linkTemplates.values());
+}
+
+export function formatDeepLink(template: SignalTypes.LinkTemplate, uri: string): SignalTypes.Link {
+  const encoded = encodeURIComponent(uri);
+  const link: SignalTypes.Link = { id: template.id, name: template.name };
+  if (typeof template.native !== "undefined") {
+    link.native = template.native.split(LINK_TEMPLATE_URI_PLACEHOLDER).join(encoded);
+  }
+  if (typeof template.universal !== "undefined") {
+    link.universal = template.universal.split(LINK_TEMPLATE_URI_PLACEHOLDER).join(encoded);
+  }
+  return link;
+}
+
+export function formatDeepLinkSignal(
+  uri: string,
+  templates: SignalTypes.LinkTemplate[] = getLinkTemplates(),
+): SignalTypes.DeepLink {
+  return {
+    method: "deeplink",
+    params: { uri, links: templates.map(template => formatDeepLink(template, uri)) },
+  };
+}
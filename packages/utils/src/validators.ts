@@ -2,6 +2,7 @@ import { ErrorResponse } from "@json-rpc-tools/types";
 import {
   AppMetadata,
   BlockchainTypes,
+  CryptoTypes,
   JsonRpcPermissions,
   NotificationPermissions,
   SequenceTypes,
@@ -12,7 +13,9 @@ import {
   SignalTypes,
 } from "@walletconnect/types";
 
+import { SUPPORTED_CIPHERS } from "./crypto";
 import { ERROR } from "./error";
+import { parseUri } from "./uri";
 
 // -- signal -------------------------------------------------- //
 
@@ -24,6 +27,74 @@ export function isSignalTypeUri(signal: SignalTypes.Base): signal is SignalTypes
   return signal.method === "uri";
 }
 
+export function isSignalTypeDeepLink(signal: SignalTypes.Base): signal is SignalTypes.DeepLink {
+  return signal.method === "deeplink";
+}
+
+// -- uri -------------------------------------------------- //
+
+function isHexBytes32(value: any): boolean {
+  return typeof value === "string" && /^[0-9a-f]{64}$/i.test(value);
+}
+
+export function validateUri(uri: string, protocol: string, version: number): Validation.Result {
+  if (typeof uri !== "string" || !uri.includes(":")) {
+    return formatInvalidResult(ERROR.MISSING_OR_INVALID.format({ name: "uri" }));
+  }
+  const params = parseUri(uri);
+  if (params.protocol !== protocol) {
+    return formatInvalidResult(
+      ERROR.INVALID_URI_PROTOCOL.format({ protocol: params.protocol, supported: protocol }),
+    );
+  }
+  if (params.version !== version) {
+    return formatInvalidResult(
+      ERROR.INVALID_URI_VERSION.format({ version: params.version, supported: version }),
+    );
+  }
+  if (!isHexBytes32(params.topic)) {
+    return formatInvalidResult(ERROR.MISSING_OR_INVALID.format({ name: "uri topic" }));
+  }
+  if (!isHexBytes32(params.publicKey)) {
+    return formatInvalidResult(ERROR.MISSING_OR_INVALID.format({ name: "uri publicKey" }));
+  }
+  if (typeof params.relay?.protocol !== "string" || !params.relay.protocol) {
+    return formatInvalidResult(ERROR.MISSING_OR_INVALID.format({ name: "uri relay" }));
+  }
+  // unknown ciphers are tolerated as long as one of them can be negotiated
+  if (
+    typeof params.ciphers !== "undefined" &&
+    !params.ciphers.some(cipher => SUPPORTED_CIPHERS.includes(cipher))
+  ) {
+    return formatInvalidResult(
+      ERROR.INVALID_URI_CIPHER.format({
+        ciphers: params.ciphers.join(","),
+        supported: SUPPORTED_CIPHERS.join(","),
+      }),
+    );
+  }
+  if (
+    typeof params.expiryTimestamp !== "undefined" &&
+    !(Number.isInteger(params.expiryTimestamp) && params.expiryTimestamp > 0)
+  ) {
+    return formatInvalidResult(ERROR.MISSING_OR_INVALID.format({ name: "uri expiryTimestamp" }));
+  }
+  if (typeof params.metadata !== "undefined" && !params.metadata.name) {
+    return formatInvalidResult(ERROR.MISSING_OR_INVALID.format({ name: "uri metadata name" }));
+  }
+  return formatValidResult();
+}
+
+// -- keychain -------------------------------------------------- //
+
+export function isEncryptedKeyChain(value: any): value is CryptoTypes.EncryptedKeyChain {
+  return (
+    typeof value?.encrypted === "string" &&
+    typeof value?.salt === "string" &&
+    typeof value?.iterations === "number"
+  );
+}
+
 // -- sequence -------------------------------------------------- //
 
 export function isSequenceRespondedStatus(
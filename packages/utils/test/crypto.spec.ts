@@ -4,7 +4,22 @@ import * as eccies25519 from "ecies-25519";
 import * as encUtils from "enc-utils";
 import { safeJsonStringify } from "safe-json-utils";
 
-import { deriveSharedKey, encrypt, sha256, decrypt } from "../src";
+import {
+  deriveSharedKey,
+  encrypt,
+  sha256,
+  decrypt,
+  encryptEnvelope,
+  encryptSymmetric,
+  decryptSymmetric,
+  deriveWrappingKey,
+  decryptEnvelope,
+  deserializeEnvelope,
+  negotiateCipher,
+  CIPHER_CHACHA20_POLY1305,
+  CIPHER_ECIES_25519,
+  ENVELOPE_TYPE,
+} from "../src";
 
 import { TEST_HASHED_KEY, TEST_KEY_PAIRS, TEST_SHARED_KEY } from "./shared";
 
@@ -55,4 +70,67 @@ describe("Crypto", () => {
     });
     expect(decrypted).to.eql(TEST_MESSAGE);
   });
+  it("encryptEnvelope (chacha20-poly1305)", async () => {
+    const encrypted = await encryptEnvelope({
+      cipher: CIPHER_CHACHA20_POLY1305,
+      message: TEST_MESSAGE,
+      sharedKey: TEST_SHARED_KEY,
+      publicKey: TEST_SELF.publicKey,
+    });
+    const envelope = deserializeEnvelope(encrypted);
+    expect(envelope.type).to.eql(ENVELOPE_TYPE);
+    expect(envelope.cipher).to.eql(CIPHER_CHACHA20_POLY1305);
+    const decrypted = await decryptEnvelope({ encrypted, sharedKey: TEST_SHARED_KEY });
+    expect(decrypted).to.eql(TEST_MESSAGE);
+  });
+  it("encryptEnvelope (ecies-25519)", async () => {
+    const encrypted = await encryptEnvelope({
+      cipher: CIPHER_ECIES_25519,
+      iv: TEST_IV,
+      message: TEST_MESSAGE,
+      sharedKey: TEST_SHARED_KEY,
+      publicKey: TEST_SELF.publicKey,
+    });
+    const envelope = deserializeEnvelope(encrypted);
+    expect(envelope.cipher).to.eql(CIPHER_ECIES_25519);
+    expect(envelope.payload).to.eql(TEST_ENCRYPTED);
+    const decrypted = await decryptEnvelope({ encrypted, sharedKey: TEST_SHARED_KEY });
+    expect(decrypted).to.eql(TEST_MESSAGE);
+  });
+  it("decryptEnvelope rejects tampered header", async () => {
+    const encrypted = await encryptEnvelope({
+      cipher: CIPHER_CHACHA20_POLY1305,
+      message: TEST_MESSAGE,
+      sharedKey: TEST_SHARED_KEY,
+      publicKey: TEST_SELF.publicKey,
+    });
+    const tampered = "01" + encrypted.slice(2);
+    let error: Error | undefined;
+    try {
+      await decryptEnvelope({ encrypted: tampered, sharedKey: TEST_SHARED_KEY });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.not.be.undefined;
+  });
+  it("negotiateCipher", async () => {
+    const cipher = negotiateCipher(
+      [CIPHER_CHACHA20_POLY1305, CIPHER_ECIES_25519],
+      [CIPHER_ECIES_25519],
+    );
+    expect(cipher).to.eql(CIPHER_ECIES_25519);
+    expect(() => negotiateCipher(["unknown"])).to.throw();
+  });
+  it("deriveWrappingKey", async () => {
+    const salt = TEST_HASHED_KEY;
+    const key = deriveWrappingKey(encUtils.utf8ToHex("passphrase"), salt, 1000);
+    expect(key.length).to.eql(64);
+    expect(deriveWrappingKey(encUtils.utf8ToHex("passphrase"), salt, 1000)).to.eql(key);
+    expect(deriveWrappingKey(encUtils.utf8ToHex("other"), salt, 1000)).to.not.eql(key);
+  });
+  it("encryptSymmetric / decryptSymmetric", async () => {
+    const encrypted = encryptSymmetric(TEST_SHARED_KEY, TEST_MESSAGE);
+    expect(decryptSymmetric(TEST_SHARED_KEY, encrypted)).to.eql(TEST_MESSAGE);
+    expect(() => decryptSymmetric(TEST_HASHED_KEY, encrypted)).to.throw();
+  });
 });
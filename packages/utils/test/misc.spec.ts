@@ -1,7 +1,7 @@
 import "mocha";
 import { expect } from "chai";
 
-import { formatRelayRpcUrl } from "../src";
+import { formatRelayRpcUrl, mergeValues } from "../src";
 
 const TEST_DEFAULT_RPC_URL = "wss://relay.walletconnect.org";
 
@@ -26,4 +26,29 @@ describe("Misc", () => {
       formatRelayRpcUrl(PROTOCOL, VERSION, TEST_DEFAULT_RPC_URL + `?apiKey=${API_KEY}`),
     ).to.eql(EXPECTED_RPC_URL_2);
   });
+  it("mergeValues", () => {
+    const getId = (value: { id: number }) => value.id;
+    const base = [
+      { id: 1, value: "a" },
+      { id: 2, value: "b" },
+      { id: 3, value: "c" },
+    ];
+    const local = [
+      { id: 1, value: "a" },
+      { id: 2, value: "local" },
+      { id: 4, value: "d" },
+    ];
+    const remote = [
+      { id: 1, value: "remote" },
+      { id: 2, value: "remote" },
+      { id: 3, value: "c" },
+      { id: 5, value: "e" },
+    ];
+    expect(mergeValues(base, local, remote, getId)).to.eql([
+      { id: 1, value: "remote" },
+      { id: 2, value: "local" },
+      { id: 5, value: "e" },
+      { id: 4, value: "d" },
+    ]);
+  });
 });
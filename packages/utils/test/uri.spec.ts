@@ -1,9 +1,20 @@
 import "mocha";
 import { expect } from "chai";
-import { UriParameters } from "@walletconnect/types";
+import { SignalTypes, UriParameters } from "@walletconnect/types";
 import { safeJsonStringify } from "safe-json-utils";
 
-import { formatUri, parseUri } from "../src";
+import {
+  CIPHER_CHACHA20_POLY1305,
+  CIPHER_ECIES_25519,
+  ERROR,
+  formatDeepLinkSignal,
+  formatUri,
+  getLinkTemplates,
+  parseUri,
+  registerLinkTemplate,
+  removeLinkTemplate,
+  validateUri,
+} from "../src";
 import { TEST_KEY_PAIRS, TEST_PAIRING_TOPIC, TEST_RELAY_OPTIONS } from "./shared";
 
 const TEST_URI_PARAMS: UriParameters = {
@@ -17,9 +28,16 @@ const TEST_URI_PARAMS: UriParameters = {
 
 const TEST_URI_STRING = `${TEST_URI_PARAMS.protocol}:${TEST_URI_PARAMS.topic}@${
   TEST_URI_PARAMS.version
-}?controller=${TEST_URI_PARAMS.controller}&publicKey=${TEST_URI_PARAMS.publicKey}&relay=${encodeURIComponent(
-  safeJsonStringify(TEST_URI_PARAMS.relay),
-)}`;
+}?controller=${TEST_URI_PARAMS.controller}&publicKey=${
+  TEST_URI_PARAMS.publicKey
+}&relay=${encodeURIComponent(safeJsonStringify(TEST_URI_PARAMS.relay))}`;
+
+const TEST_LINK_TEMPLATE: SignalTypes.LinkTemplate = {
+  id: "example",
+  name: "Example Wallet",
+  native: "example://wc?uri={uri}",
+  universal: "https://example.com/wc?uri={uri}",
+};
 
 describe("URI", () => {
   it("formatUri", () => {
@@ -35,4 +53,99 @@ describe("URI", () => {
     expect(uriParams.controller).to.eql(TEST_URI_PARAMS.controller);
     expect(uriParams.relay).to.eql(TEST_URI_PARAMS.relay);
   });
+  it("formatUri / parseUri with ciphers", () => {
+    const ciphers = [CIPHER_CHACHA20_POLY1305, CIPHER_ECIES_25519];
+    const uri = formatUri({ ...TEST_URI_PARAMS, ciphers });
+    expect(uri).to.include(`ciphers=${encodeURIComponent(ciphers.join(","))}`);
+    const uriParams = parseUri(uri);
+    expect(uriParams.ciphers).to.eql(ciphers);
+    expect(parseUri(TEST_URI_STRING).ciphers).to.be.undefined;
+  });
+  it("formatUri / parseUri round-trip", () => {
+    const ciphers = [CIPHER_CHACHA20_POLY1305];
+    const relay = { protocol: "waku", params: { topic: "/waku/2/default-waku/proto" } };
+    const metadata = {
+      name: "Test App",
+      description: "Test App for WalletConnect",
+      url: "https://walletconnect.org/",
+      icons: ["https://walletconnect.org/walletconnect-logo.png"],
+    };
+    [
+      TEST_URI_PARAMS,
+      { ...TEST_URI_PARAMS, controller: true, relay, ciphers },
+      { ...TEST_URI_PARAMS, expiryTimestamp: Date.now(), metadata },
+    ].forEach(params => {
+      const uri = formatUri(params);
+      expect(parseUri(uri)).to.eql(params);
+      expect(formatUri(parseUri(uri))).to.eql(uri);
+    });
+  });
+  it("parseUri with compact relay protocol", () => {
+    const uri = TEST_URI_STRING.replace(
+      `relay=${encodeURIComponent(safeJsonStringify(TEST_URI_PARAMS.relay))}`,
+      `relay-protocol=${TEST_URI_PARAMS.relay.protocol}`,
+    );
+    expect(parseUri(uri).relay).to.eql({ protocol: TEST_URI_PARAMS.relay.protocol });
+    expect(validateUri(uri, "wc", 2)).to.eql({ valid: true });
+  });
+  it("validateUri", () => {
+    expect(validateUri(TEST_URI_STRING, "wc", 2)).to.eql({ valid: true });
+    const invalid = (uri: string) => {
+      const validation = validateUri(uri, "wc", 2);
+      return !validation.valid ? validation.error : undefined;
+    };
+    expect(invalid("")).to.eql(ERROR.MISSING_OR_INVALID.format({ name: "uri" }));
+    expect(invalid(TEST_URI_STRING.replace("wc:", "ws:"))).to.eql(
+      ERROR.INVALID_URI_PROTOCOL.format({ protocol: "ws", supported: "wc" }),
+    );
+    expect(invalid(TEST_URI_STRING.replace("@2", "@1"))).to.eql(
+      ERROR.INVALID_URI_VERSION.format({ version: 1, supported: 2 }),
+    );
+    expect(invalid(TEST_URI_STRING.replace("@2", ""))).to.eql(
+      ERROR.INVALID_URI_VERSION.format({ version: NaN, supported: 2 }),
+    );
+    expect(invalid(TEST_URI_STRING.replace(TEST_PAIRING_TOPIC, "topic"))).to.eql(
+      ERROR.MISSING_OR_INVALID.format({ name: "uri topic" }),
+    );
+    expect(invalid(TEST_URI_STRING.replace(`publicKey=${TEST_URI_PARAMS.publicKey}&`, ""))).to.eql(
+      ERROR.MISSING_OR_INVALID.format({ name: "uri publicKey" }),
+    );
+    expect(invalid(TEST_URI_STRING.split("&relay=")[0])).to.eql(
+      ERROR.MISSING_OR_INVALID.format({ name: "uri relay" }),
+    );
+    expect(invalid(`${TEST_URI_STRING}&ciphers=aes-128-cbc`)).to.eql(
+      ERROR.INVALID_URI_CIPHER.format({
+        ciphers: "aes-128-cbc",
+        supported: [CIPHER_CHACHA20_POLY1305, CIPHER_ECIES_25519].join(","),
+      }),
+    );
+    expect(
+      validateUri(`${TEST_URI_STRING}&ciphers=aes-128-cbc,${CIPHER_CHACHA20_POLY1305}`, "wc", 2),
+    ).to.eql({ valid: true });
+    expect(invalid(`${TEST_URI_STRING}&expiryTimestamp=soon`)).to.eql(
+      ERROR.MISSING_OR_INVALID.format({ name: "uri expiryTimestamp" }),
+    );
+  });
+  it("formatDeepLinkSignal with registered link templates", () => {
+    registerLinkTemplate(TEST_LINK_TEMPLATE);
+    const signal = formatDeepLinkSignal(TEST_URI_STRING);
+    removeLinkTemplate(TEST_LINK_TEMPLATE.id);
+    expect(signal.method).to.eql("deeplink");
+    expect(signal.params.uri).to.eql(TEST_URI_STRING);
+    expect(signal.params.links).to.eql([
+      {
+        id: TEST_LINK_TEMPLATE.id,
+        name: TEST_LINK_TEMPLATE.name,
+        native: `example://wc?uri=${encodeURIComponent(TEST_URI_STRING)}`,
+        universal: `https://example.com/wc?uri=${encodeURIComponent(TEST_URI_STRING)}`,
+      },
+    ]);
+    expect(getLinkTemplates()).to.eql([]);
+  });
+  it("registerLinkTemplate rejects templates without uri placeholder", () => {
+    expect(() =>
+      registerLinkTemplate({ ...TEST_LINK_TEMPLATE, universal: "https://example.com/wc" }),
+    ).to.throw(`Invalid link template for wallet: ${TEST_LINK_TEMPLATE.id}`);
+    expect(() => registerLinkTemplate({ id: "empty", name: "Empty Wallet" })).to.throw();
+  });
 });
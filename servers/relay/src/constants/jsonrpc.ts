@@ -3,3 +3,10 @@ import { THIRTY_SECONDS } from "./time";
 export const JSONRPC_RETRIAL_TIMEOUT = THIRTY_SECONDS * 1000;
 
 export const JSONRPC_RETRIAL_MAX = 3;
+
+export const RELAY_BATCH_JSONRPC = {
+  waku: {
+    batchSubscribe: "waku_batchSubscribe",
+    batchUnsubscribe: "waku_batchUnsubscribe",
+  },
+};
@@ -27,7 +27,8 @@ import config from "./config";
 import { RedisService } from "./redis";
 import { NotificationService } from "./notification";
 import { Subscription } from "./types";
-import { JSONRPC_RETRIAL_TIMEOUT, JSONRPC_RETRIAL_MAX } from "./constants";
+import { JSONRPC_RETRIAL_TIMEOUT, JSONRPC_RETRIAL_MAX, RELAY_BATCH_JSONRPC } from "./constants";
+import { parseBatchSubscribeRequest, parseBatchUnsubscribeRequest } from "./utils";
 
 import { SubscriptionService } from "./subscription";
 import { WebSocketService } from "./ws";
@@ -89,6 +90,14 @@ export class JsonRpcService {
           );
           break;
 
+        case RELAY_BATCH_JSONRPC.waku.batchSubscribe:
+          await this.onBatchSubscribeRequest(socketId, request);
+          break;
+
+        case RELAY_BATCH_JSONRPC.waku.batchUnsubscribe:
+          await this.onBatchUnsubscribeRequest(socketId, request);
+          break;
+
         default:
           this.socketSend(socketId, formatJsonRpcError(request.id, getError(METHOD_NOT_FOUND)));
           return;
@@ -160,6 +169,34 @@ export class JsonRpcService {
     await this.socketSend(socketId, formatJsonRpcResult(request.id, true));
   }
 
+  private async onBatchSubscribeRequest(socketId: string, request: JsonRpcRequest) {
+    const params = parseBatchSubscribeRequest(request);
+    this.logger.debug(`Batch Subscribe Request Received`);
+    this.logger.trace({ type: "method", method: "onBatchSubscribeRequest", socketId, params });
+    const ids = params.topics.map(topic => this.subscription.set({ topic, socketId }));
+    await this.socketSend(socketId, formatJsonRpcResult(request.id, ids));
+    await Promise.all(
+      params.topics.map((topic, index) =>
+        this.pushCachedMessages({ id: ids[index], topic, socketId }),
+      ),
+    );
+  }
+
+  private async onBatchUnsubscribeRequest(socketId: string, request: JsonRpcRequest) {
+    const params = parseBatchUnsubscribeRequest(request);
+    this.logger.debug(`Batch Unsubscribe Request Received`);
+    this.logger.trace({ type: "method", method: "onBatchUnsubscribeRequest", socketId, params });
+
+    // sockets can only remove their own subscriptions
+    params.ids
+      .filter(id =>
+        this.subscription.subscriptions.some(sub => sub.id === id && sub.socketId === socketId),
+      )
+      .forEach(id => this.subscription.remove(id));
+
+    await this.socketSend(socketId, formatJsonRpcResult(request.id, true));
+  }
+
   private async searchSubscriptions(socketId: string, params: RelayJsonRpc.PublishParams) {
     this.logger.debug(`Searching subscriptions`);
     this.logger.trace({ type: "method", method: "searchSubscriptions", socketId, params });
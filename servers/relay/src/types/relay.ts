@@ -4,3 +4,13 @@ export declare namespace RelayModes {
   export type Any = "any";
   export type All = Legacy | JsonRpc | Any;
 }
+
+export declare namespace RelayBatchJsonRpc {
+  export interface BatchSubscribeParams {
+    topics: string[];
+  }
+
+  export interface BatchUnsubscribeParams {
+    ids: string[];
+  }
+}
@@ -1,2 +1,3 @@
 export * from "./misc";
+export * from "./parsers";
 export * from "./validators";
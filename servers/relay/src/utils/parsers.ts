@@ -0,0 +1,29 @@
+import { JsonRpcRequest } from "@json-rpc-tools/utils";
+
+import { RELAY_BATCH_JSONRPC } from "../constants";
+import { RelayBatchJsonRpc } from "../types";
+import { isBatchSubscribeParams, isBatchUnsubscribeParams } from "./validators";
+
+export function parseBatchSubscribeRequest(
+  request: JsonRpcRequest,
+): RelayBatchJsonRpc.BatchSubscribeParams {
+  if (request.method !== RELAY_BATCH_JSONRPC.waku.batchSubscribe) {
+    throw new Error("JSON-RPC Request has invalid batch subscribe method");
+  }
+  if (!isBatchSubscribeParams(request.params)) {
+    throw new Error("JSON-RPC Request has invalid batch subscribe params");
+  }
+  return request.params;
+}
+
+export function parseBatchUnsubscribeRequest(
+  request: JsonRpcRequest,
+): RelayBatchJsonRpc.BatchUnsubscribeParams {
+  if (request.method !== RELAY_BATCH_JSONRPC.waku.batchUnsubscribe) {
+    throw new Error("JSON-RPC Request has invalid batch unsubscribe method");
+  }
+  if (!isBatchUnsubscribeParams(request.params)) {
+    throw new Error("JSON-RPC Request has invalid batch unsubscribe params");
+  }
+  return request.params;
+}
@@ -1,4 +1,4 @@
-import { LegacySocketMessage, RelayModes } from "../types";
+import { LegacySocketMessage, RelayBatchJsonRpc, RelayModes } from "../types";
 
 export function isLegacySocketMessage(payload: any): payload is LegacySocketMessage {
   return "topic" in payload && "type" in payload && "payload" in payload;
@@ -23,3 +23,23 @@ export function isLegacyDisabled(mode: RelayModes.All): boolean {
 export function isJsonRpcDisabled(mode: RelayModes.All): boolean {
   return !(isRelayModeJsonRpc(mode) || isRelayModeAny(mode));
 }
+
+export function isBatchSubscribeParams(
+  params: any,
+): params is RelayBatchJsonRpc.BatchSubscribeParams {
+  return (
+    typeof params === "object" &&
+    Array.isArray(params.topics) &&
+    params.topics.every((topic: any) => typeof topic === "string" && !!topic)
+  );
+}
+
+export function isBatchUnsubscribeParams(
+  params: any,
+): params is RelayBatchJsonRpc.BatchUnsubscribeParams {
+  return (
+    typeof params === "object" &&
+    Array.isArray(params.ids) &&
+    params.ids.every((id: any) => typeof id === "string" && !!id)
+  );
+}
@@ -6,7 +6,10 @@ import { RELAY_JSONRPC } from "relay-provider";
 
 import { TEST_RELAY_URL, getTestJsonRpc, Counter } from "./shared";
 import { JsonRpcPayload } from "@json-rpc-tools/types";
-import { formatJsonRpcResult } from "@json-rpc-tools/utils";
+import { formatJsonRpcRequest, formatJsonRpcResult } from "@json-rpc-tools/utils";
+
+import { RELAY_BATCH_JSONRPC } from "../src/constants";
+import { RelayBatchJsonRpc } from "../src/types";
 
 describe("JSON-RPC", () => {
   it("A can publish to B subscribed to same topic", async () => {
@@ -210,4 +213,63 @@ describe("JSON-RPC", () => {
 
     expect(counterC.value).to.eql(1);
   });
+  it("A can publish to B batch subscribed to multiple topics", async () => {
+    const { pub, sub } = getTestJsonRpc();
+    const other = getTestJsonRpc();
+
+    const providerA = new JsonRpcProvider(new WsConnection(TEST_RELAY_URL));
+    await providerA.connect();
+    const providerB = new JsonRpcProvider(new WsConnection(TEST_RELAY_URL));
+    await providerB.connect();
+
+    const batchSub = formatJsonRpcRequest<RelayBatchJsonRpc.BatchSubscribeParams>(
+      RELAY_BATCH_JSONRPC.waku.batchSubscribe,
+      { topics: [sub.params.topic, other.sub.params.topic] },
+    );
+
+    let subscriptionsB: string[] = [];
+
+    const counterB = new Counter();
+
+    const received: any[] = [];
+
+    await Promise.all([
+      new Promise<void>(async resolve => {
+        // subscribing to topics
+        subscriptionsB = await providerB.request(batchSub);
+        expect(subscriptionsB.length).to.eql(2);
+        resolve();
+      }),
+      new Promise<void>(resolve => {
+        // publishing to topics
+        providerA.request(pub);
+        providerA.request(other.pub);
+        resolve();
+      }),
+      new Promise<void>(resolve => {
+        // acknowledging received payloads
+        providerB.on("payload", (payload: JsonRpcPayload) => {
+          const response = formatJsonRpcResult(payload.id, true);
+          providerB.connection.send(response);
+          resolve();
+        });
+      }),
+      new Promise<void>(resolve => {
+        // evaluating incoming subscriptions
+        providerB.on("message", ({ type, data }) => {
+          counterB.tick();
+          expect(type).to.eql(RELAY_JSONRPC.waku.subscription);
+          received.push(data);
+          if (received.length === 2) resolve();
+        });
+      }),
+    ]);
+
+    expect(counterB.value).to.eql(2);
+    [pub, other.pub].forEach((request, index) => {
+      const data = received.find(event => event.data.topic === request.params.topic);
+      expect(data.id).to.eql(subscriptionsB[index]);
+      expect(data.data.message).to.eql(request.params.message);
+    });
+  });
 });